@@ -0,0 +1,71 @@
+import { encodeComment, encodeMessage } from './encode';
+import { EventSourceMessage, getLines, getMessages } from './parse';
+
+describe('encode', () => {
+    const encoder = new TextEncoder();
+
+    function parse(text: string) {
+        const messages: EventSourceMessage[] = [];
+        const comments: string[] = [];
+        const next = getLines(getMessages(() => { }, () => { }, msg => messages.push(msg), {
+            onComment: comment => comments.push(comment),
+        }));
+        next(encoder.encode(text));
+        return { messages, comments };
+    }
+
+    it('encodes all fields', () => {
+        // act:
+        const text = encodeMessage({ id: '1', event: 'update', retry: 500, data: 'hello' });
+
+        // assert:
+        expect(text).toBe('id: 1\nevent: update\nretry: 500\ndata: hello\n\n');
+    });
+
+    it('splits multi-line data into data lines', () => {
+        // act:
+        const text = encodeMessage({ data: 'a\r\nb\rc\n\nd\n' });
+
+        // assert:
+        expect(text).toBe('data: a\ndata: b\ndata: c\ndata:\ndata: d\ndata:\n\n');
+        expect(parse(text).messages[0].data).toBe('a\nb\nc\n\nd\n');
+    });
+
+    it('round-trips through the parser', () => {
+        // arrange:
+        const inputs = [
+            { id: 'x', event: 'a', data: ' leading space' },
+            { data: '' },
+            { data: '{"json":true}\n[1,2]' },
+            { id: '', data: 'reset id' },
+        ];
+
+        // act:
+        const { messages } = parse(inputs.map(encodeMessage).join(''));
+
+        // assert:
+        expect(messages).toEqual([
+            { id: 'x', event: 'a', data: ' leading space', retry: undefined },
+            { id: 'x', event: '', data: '', retry: undefined },
+            { id: 'x', event: '', data: '{"json":true}\n[1,2]', retry: undefined },
+            { id: '', event: '', data: 'reset id', retry: undefined },
+        ]);
+    });
+
+    it('encodes comments', () => {
+        // act:
+        const text = encodeComment('ping\npong') + encodeComment();
+
+        // assert:
+        expect(text).toBe(': ping\n: pong\n:\n');
+        expect(parse(text).comments).toEqual(['ping', 'pong', '']);
+    });
+
+    it('rejects fields the client would parse differently', () => {
+        expect(() => encodeMessage({ id: 'a\nb' })).toThrowError(TypeError);
+        expect(() => encodeMessage({ id: 'a\0b' })).toThrowError(TypeError);
+        expect(() => encodeMessage({ event: 'a\rb' })).toThrowError(TypeError);
+        expect(() => encodeMessage({ retry: 1.5 })).toThrowError(TypeError);
+        expect(() => encodeMessage({ retry: -1 })).toThrowError(TypeError);
+    });
+});
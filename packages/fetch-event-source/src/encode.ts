@@ -0,0 +1,62 @@
+import { EventSourceMessage } from "./parse";
+
+// any of the line endings the parser accepts:
+const LineBreak = /\r\n|\r|\n/;
+
+/**
+ * Serializes a message into the event stream format, ending with the blank
+ * line that dispatches it. Multi-line `data` is split into one `data` line
+ * per line, so it arrives with `\n` line endings. Fields left undefined are
+ * omitted; a message without `data` only sets the id or retry interval on the
+ * client. An empty string `id` resets the client's last event id.
+ * @throws {TypeError} If `event` or `id` contains a line break (or `id` a
+ * NULL character), or `retry` is not a non-negative integer, since the
+ * client would parse those differently.
+ */
+export function encodeMessage(msg: Partial<EventSourceMessage>) {
+  let res = "";
+  if (msg.id !== undefined) {
+    if (LineBreak.test(msg.id) || msg.id.includes("\0")) {
+      throw new TypeError("Event ids can't contain line breaks or NULL");
+    }
+    res += field("id", msg.id);
+  }
+  if (msg.event !== undefined) {
+    if (LineBreak.test(msg.event)) {
+      throw new TypeError("Event names can't contain line breaks");
+    }
+    res += field("event", msg.event);
+  }
+  if (msg.retry !== undefined) {
+    if (!Number.isInteger(msg.retry) || msg.retry < 0) {
+      throw new TypeError(
+        `Retry must be a non-negative integer, got ${msg.retry}`
+      );
+    }
+    res += field("retry", String(msg.retry));
+  }
+  if (msg.data !== undefined) {
+    for (const line of msg.data.split(LineBreak)) {
+      res += field("data", line);
+    }
+  }
+  return res + "\n";
+}
+
+/**
+ * Serializes a comment, e.g. a keep-alive. Clients ignore comments, but they
+ * reset `idleTimeout` and are passed to `oncomment`. Multi-line text becomes
+ * several comment lines.
+ */
+export function encodeComment(text = "") {
+  return text
+    .split(LineBreak)
+    .map((line) => (line ? `: ${line}\n` : ":\n"))
+    .join("");
+}
+
+function field(name: string, value: string) {
+  // the parser drops one space after the colon, so values that start with a
+  // space keep it:
+  return value ? `${name}: ${value}\n` : `${name}:\n`;
+}
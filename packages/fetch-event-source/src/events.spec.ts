@@ -0,0 +1,113 @@
+import { createEventDispatcher, DecodeError } from './events';
+import { EventSourceMessage } from './parse';
+
+function message(event: string, data: string): EventSourceMessage {
+    return { id: '', event, data };
+}
+
+interface Events {
+    message: { text: string };
+    update: { id: number };
+    log: string;
+}
+
+describe('events', () => {
+    it('decodes JSON and dispatches by event name', () => {
+        // arrange:
+        const received: any[] = [];
+        const dispatch = createEventDispatcher<Events>({
+            message: payload => received.push(['message', payload.text]),
+            update: payload => received.push(['update', payload.id]),
+        });
+
+        // act:
+        dispatch(message('', '{"text":"hi"}'));
+        dispatch(message('update', '{"id":1}'));
+        dispatch(message('unknown', '{}'));
+
+        // assert:
+        expect(received).toEqual([['message', 'hi'], ['update', 1]]);
+    });
+
+    it('ignores events that only exist on the prototype', () => {
+        // arrange:
+        const dispatch = createEventDispatcher({});
+
+        // act & assert:
+        expect(() => dispatch(message('toString', '1'))).not.toThrow();
+    });
+
+    it('supports text and custom decoders', () => {
+        // arrange:
+        const received: any[] = [];
+        const dispatch = createEventDispatcher<Events>({
+            log: { decode: 'text', handle: payload => received.push(payload) },
+            update: { decode: data => ({ id: Number(data) }), handle: payload => received.push(payload.id) },
+        });
+
+        // act:
+        dispatch(message('log', 'not json'));
+        dispatch(message('update', '42'));
+
+        // assert:
+        expect(received).toEqual(['not json', 42]);
+    });
+
+    it('reports payloads that fail to decode and keeps going', () => {
+        // arrange:
+        const errors: DecodeError[] = [];
+        const received: number[] = [];
+        const dispatch = createEventDispatcher<Events>(
+            { update: payload => received.push(payload.id) },
+            err => errors.push(err));
+
+        // act:
+        dispatch(message('update', '{oops'));
+        dispatch(message('update', '{"id":2}'));
+
+        // assert:
+        expect(received).toEqual([2]);
+        expect(errors.length).toBe(1);
+        expect(errors[0]).toBeInstanceOf(DecodeError);
+        expect(errors[0].event.data).toBe('{oops');
+        expect(errors[0].cause).toBeInstanceOf(SyntaxError);
+    });
+
+    it('reports payloads that fail validation', () => {
+        // arrange:
+        const errors: DecodeError[] = [];
+        const received: any[] = [];
+        const dispatch = createEventDispatcher<Events>({
+            update: {
+                validate: payload => typeof payload?.id === 'number',
+                handle: payload => received.push(payload),
+            },
+            message: {
+                validate: () => { throw new Error('missing text'); },
+                handle: payload => received.push(payload),
+            },
+        }, err => errors.push(err));
+
+        // act:
+        dispatch(message('update', '{"id":"1"}'));
+        dispatch(message('message', '{}'));
+
+        // assert:
+        expect(received).toEqual([]);
+        expect(errors.map(e => e.message)).toEqual([
+            'Invalid "update" event payload',
+            'Invalid "message" event payload: missing text',
+        ]);
+    });
+
+    it('returns the handler result', async () => {
+        // arrange:
+        const dispatch = createEventDispatcher({ message: () => Promise.resolve('done') });
+
+        // act:
+        const result = await dispatch(message('', '1'));
+
+        // assert:
+        expect(result).toBe('done');
+    });
+});
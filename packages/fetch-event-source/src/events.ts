@@ -0,0 +1,116 @@
+import { EventSourceMessage } from "./parse";
+
+/** How to turn the raw `data` string into a payload. */
+export type EventDecoder<T> =
+  | "json"
+  | "text"
+  | ((data: string, ev: EventSourceMessage) => T);
+
+export interface EventHandlerOptions<T> {
+  /** Defaults to "json". */
+  decode?: EventDecoder<T>;
+  /**
+   * Checks the decoded payload. Return false (or throw) to reject it; rejected
+   * payloads are reported to `ondecodeerror` instead of reaching `handle`.
+   */
+  validate?: (payload: any) => boolean;
+  /**
+   * Called with the decoded payload. If it returns a promise, reading from the
+   * stream pauses until the promise settles.
+   */
+  handle: (payload: T, ev: EventSourceMessage) => unknown;
+}
+
+/** A handler function (payload decoded as JSON), or a handler with its own decoder and validator. */
+export type EventHandler<T> =
+  | ((payload: T, ev: EventSourceMessage) => unknown)
+  | EventHandlerOptions<T>;
+
+/**
+ * Handlers keyed by event name. Messages without an `event` field are
+ * dispatched to the "message" handler.
+ * @typeParam TEvents Maps each event name to its payload type.
+ */
+export type EventHandlers<TEvents extends Record<string, any>> = {
+  [K in keyof TEvents]?: EventHandler<TEvents[K]>;
+};
+
+/**
+ * Passed to `ondecodeerror` when a payload can't be decoded or fails validation.
+ * The connection stays open.
+ */
+export class DecodeError extends Error {
+  constructor(
+    message: string,
+    public readonly event: EventSourceMessage,
+    public readonly cause?: any
+  ) {
+    super(message);
+    this.name = "DecodeError";
+  }
+}
+
+/**
+ * Creates a function that decodes each message and passes it to the handler
+ * for its event name. Messages without a handler are ignored.
+ * @returns The result of the handler, so promises can be awaited by the caller.
+ */
+export function createEventDispatcher<TEvents extends Record<string, any>>(
+  handlers: EventHandlers<TEvents>,
+  ondecodeerror?: (err: DecodeError) => void
+) {
+  return function dispatch(ev: EventSourceMessage): unknown {
+    const name = ev.event || "message";
+    const handler = Object.prototype.hasOwnProperty.call(handlers, name)
+      ? (handlers[name] as EventHandler<any> | undefined)
+      : undefined;
+    if (!handler) {
+      return;
+    }
+
+    const { decode = "json", validate, handle }: EventHandlerOptions<any> =
+      typeof handler === "function" ? { handle: handler } : handler;
+
+    let payload: any;
+    try {
+      payload =
+        decode === "json"
+          ? JSON.parse(ev.data)
+          : decode === "text"
+          ? ev.data
+          : decode(ev.data, ev);
+    } catch (err: any) {
+      ondecodeerror?.(
+        new DecodeError(
+          `Failed to decode "${name}" event: ${err?.message ?? err}`,
+          ev,
+          err
+        )
+      );
+      return;
+    }
+
+    let valid: boolean;
+    let cause: any;
+    try {
+      valid = !validate || validate(payload);
+    } catch (err) {
+      valid = false;
+      cause = err;
+    }
+    if (!valid) {
+      ondecodeerror?.(
+        new DecodeError(
+          `Invalid "${name}" event payload${
+            cause ? `: ${cause?.message ?? cause}` : ""
+          }`,
+          ev,
+          cause
+        )
+      );
+      return;
+    }
+
+    return handle(payload, ev);
+  };
+}
@@ -0,0 +1,155 @@
+import * as http from 'http';
+import { EventStreamContentType } from './fetch';
+import { FetchEventSource } from './eventsource';
+import { startServer, writeStream } from './test-server';
+
+function nextEvent(source: FetchEventSource, type: string) {
+    return new Promise<Event>(resolve => source.addEventListener(type, resolve as any, { once: true }));
+}
+
+describe('FetchEventSource', () => {
+    let server: http.Server | undefined;
+    let source: FetchEventSource | undefined;
+
+    afterEach(done => {
+        source?.close();
+        source = undefined;
+        if (server) {
+            server.close(() => done());
+            server = undefined;
+        } else {
+            done();
+        }
+    });
+
+    it('moves through readyState like EventSource', async () => {
+        // arrange:
+        const started = await startServer((_req, res, attempt) => {
+            // the first stream is closed by the server, which makes the client reconnect:
+            if (attempt === 1) {
+                writeStream(res, 'retry: 10\ndata: first\n\n');
+            } else {
+                res.writeHead(200, { 'content-type': EventStreamContentType });
+                res.write('data: second\n\n');
+            }
+        });
+        server = started.server;
+        const log: string[] = [];
+
+        // act:
+        source = new FetchEventSource(started.url);
+        const s = source;
+        log.push(`initial ${s.readyState}`);
+        s.onopen = () => log.push(`open ${s.readyState}`);
+        s.onerror = () => log.push(`error ${s.readyState}`);
+        s.onmessage = ev => log.push(`message ${ev.data}`);
+        while (!log.includes('message second')) {
+            await nextEvent(s, 'message');
+        }
+        s.close();
+
+        // assert:
+        expect(log).toEqual([
+            'initial 0',
+            'open 1',
+            'message first',
+            'error 0',
+            'open 1',
+            'message second',
+        ]);
+        expect(s.readyState).toBe(FetchEventSource.CLOSED);
+    });
+
+    it('dispatches named events to their listeners', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': EventStreamContentType });
+            res.write('id: 7\nevent: update\ndata: {"a":1}\n\ndata: plain\n\n');
+        });
+        server = started.server;
+        source = new FetchEventSource(started.url);
+        const received: string[] = [];
+        source.onmessage = ev => received.push(`onmessage ${ev.data}`);
+
+        // act:
+        const [update] = await Promise.all([nextEvent(source, 'update') as Promise<MessageEvent>, nextEvent(source, 'message')]);
+
+        // assert:
+        expect(update.data).toBe('{"a":1}');
+        expect(update.lastEventId).toBe('7');
+        expect(update.origin).toBe(new URL(started.url).origin);
+        expect(received).toEqual(['onmessage plain']);
+    });
+
+    it('sends custom headers and bodies', async () => {
+        // arrange:
+        let request: { method?: string, auth?: string, body: string } | undefined;
+        const started = await startServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                request = { method: req.method, auth: req.headers.authorization, body };
+                res.writeHead(200, { 'content-type': EventStreamContentType });
+                res.write('data: ok\n\n');
+            });
+        });
+        server = started.server;
+
+        // act:
+        source = new FetchEventSource(started.url, {
+            method: 'POST',
+            headers: { authorization: 'Bearer token' },
+            body: '{"q":1}',
+            withCredentials: true,
+        });
+        await nextEvent(source, 'message');
+
+        // assert:
+        expect(request).toEqual({ method: 'POST', auth: 'Bearer token', body: '{"q":1}' });
+        expect(source.withCredentials).toBeTrue();
+    });
+
+    it('closes for good on an error response', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(404);
+            res.end();
+        });
+        server = started.server;
+
+        // act:
+        source = new FetchEventSource(started.url);
+        await nextEvent(source, 'error');
+
+        // assert:
+        expect(source.readyState).toBe(FetchEventSource.CLOSED);
+    });
+
+    it('closes once the retry policy gives up', async () => {
+        // arrange:
+        let requests = 0;
+        const started = await startServer((_req, res) => {
+            requests++;
+            res.writeHead(503);
+            res.end();
+        });
+        server = started.server;
+        const states: number[] = [];
+
+        // act:
+        source = new FetchEventSource(started.url, { retry: { initialInterval: 1, maxAttempts: 2 } });
+        const s = source;
+        await new Promise<void>(resolve => {
+            s.onerror = () => {
+                states.push(s.readyState);
+                if (s.readyState === FetchEventSource.CLOSED) {
+                    resolve();
+                }
+            };
+        });
+
+        // assert:
+        expect(states).toEqual([FetchEventSource.CONNECTING, FetchEventSource.CLOSED]);
+        expect(requests).toBe(2);
+    });
+});
@@ -0,0 +1,192 @@
+import { defaultOnOpen, fetchEventSource, FetchEventSourceInit } from "./fetch";
+import { EventSourceMessage } from "./parse";
+import { ResponseError, RetryState } from "./retry";
+
+export interface FetchEventSourceClassInit
+  extends Omit<
+    FetchEventSourceInit,
+    | "onopen"
+    | "onmessage"
+    | "onclose"
+    | "reconnectOnClose"
+    | "onerror"
+    | "handlers"
+    | "signal"
+    | "credentials"
+    | "format"
+  > {
+  /** Send cookies and credentials with cross-origin requests, like `EventSource`. */
+  withCredentials?: boolean;
+}
+
+/**
+ * An `EventSource`-compatible object backed by `fetchEventSource`, for code
+ * that expects the standard interface but needs custom headers, a POST body or
+ * a retry policy.
+ *
+ * `readyState` changes like in browsers: CONNECTING until the stream opens,
+ * back to CONNECTING (with an `error` event) while reconnecting, and CLOSED
+ * after `close()` or when the connection fails for good. Without a `retry`
+ * policy, a non-2xx response or a wrong content-type fails for good and other
+ * errors reconnect; a stream closed by the server is reconnected too. Unlike
+ * `fetchEventSource`, the connection stays open while the page is hidden
+ * unless `openWhenHidden: false` is passed.
+ */
+export class FetchEventSource extends EventTarget implements EventSource {
+  static readonly CONNECTING = 0 as const;
+  static readonly OPEN = 1 as const;
+  static readonly CLOSED = 2 as const;
+  readonly CONNECTING = 0 as const;
+  readonly OPEN = 1 as const;
+  readonly CLOSED = 2 as const;
+
+  readonly url: string;
+  readonly withCredentials: boolean;
+
+  onopen: ((this: EventSource, ev: Event) => any) | null = null;
+  onmessage: ((this: EventSource, ev: MessageEvent) => any) | null = null;
+  onerror: ((this: EventSource, ev: Event) => any) | null = null;
+
+  private state: number = FetchEventSource.CONNECTING;
+  private readonly controller = new AbortController();
+
+  constructor(url: string | URL, init: FetchEventSourceClassInit = {}) {
+    super();
+    this.url = resolveUrl(url);
+    const {
+      withCredentials = false,
+      retry,
+      openWhenHidden = true,
+      ...rest
+    } = init;
+    this.withCredentials = withCredentials;
+
+    const retryState = retry && new RetryState(retry);
+    let serverRetryInterval: number | undefined;
+
+    fetchEventSource(this.url, {
+      ...rest,
+      openWhenHidden,
+      credentials: withCredentials ? "include" : "same-origin",
+      signal: this.controller.signal,
+      onopen: async (response) => {
+        defaultOnOpen(response);
+        retryState?.reset();
+        this.state = FetchEventSource.OPEN;
+        this.dispatch(new Event("open"), this.onopen);
+      },
+      onmessage: (msg) => {
+        if (msg.retry !== undefined) {
+          serverRetryInterval = msg.retry;
+        }
+        this.dispatchMessage(msg);
+      },
+      // a stream closed by the server is reconnected, like `EventSource`:
+      reconnectOnClose: true,
+      onerror: (err) => {
+        let interval: number | undefined;
+        if (retryState) {
+          retryState.fail();
+          interval = retryState.next(err, serverRetryInterval);
+        } else if (err instanceof ResponseError) {
+          throw err;
+        }
+        this.state = FetchEventSource.CONNECTING;
+        this.dispatch(new Event("error"), this.onerror);
+        return interval;
+      },
+    }).catch(() => {
+      this.fail();
+    });
+  }
+
+  get readyState() {
+    return this.state;
+  }
+
+  /** Closes the connection. No more events are dispatched. */
+  close() {
+    this.state = FetchEventSource.CLOSED;
+    this.controller.abort();
+  }
+
+  private fail() {
+    if (this.state !== FetchEventSource.CLOSED) {
+      this.state = FetchEventSource.CLOSED;
+      this.dispatch(new Event("error"), this.onerror);
+    }
+  }
+
+  private dispatchMessage(msg: EventSourceMessage) {
+    if (this.state === FetchEventSource.CLOSED) {
+      return;
+    }
+    const type = msg.event || "message";
+    const event = new MessageEvent(type, {
+      data: msg.data,
+      lastEventId: msg.id,
+      origin: originOf(this.url),
+    });
+    this.dispatch(event, type === "message" ? this.onmessage : null);
+  }
+
+  private dispatch(event: Event, handler: ((ev: any) => any) | null) {
+    this.dispatchEvent(event);
+    handler?.call(this, event);
+  }
+
+  // typed overloads, matching EventSource:
+  addEventListener<K extends keyof EventSourceEventMap>(
+    type: K,
+    listener: (this: EventSource, ev: EventSourceEventMap[K]) => any,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: (this: EventSource, event: MessageEvent) => any,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(type: string, listener: any, options?: any) {
+    super.addEventListener(type, listener, options);
+  }
+
+  removeEventListener<K extends keyof EventSourceEventMap>(
+    type: K,
+    listener: (this: EventSource, ev: EventSourceEventMap[K]) => any,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: (this: EventSource, event: MessageEvent) => any,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(type: string, listener: any, options?: any) {
+    super.removeEventListener(type, listener, options);
+  }
+}
+
+function resolveUrl(url: string | URL) {
+  try {
+    return new URL(String(url), globalThis.location?.href).href;
+  } catch {
+    return String(url); // relative url without a document to resolve it against
+  }
+}
+
+function originOf(url: string) {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "";
+  }
+}
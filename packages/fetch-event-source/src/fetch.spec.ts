@@ -0,0 +1,616 @@
+import * as http from 'http';
+import { fetchEventSource, EventStreamContentType, IdleTimeoutError, NdjsonContentType, StreamClosedError } from './fetch';
+import { EventSourceMessage, MaxSizeExceededError } from './parse';
+import { ResponseError, RetryError } from './retry';
+import { MemoryLastEventIdStorage } from './storage';
+import { startServer, writeStream } from './test-server';
+
+describe('fetchEventSource (node)', () => {
+    let server: http.Server | undefined;
+
+    afterEach(done => {
+        if (server) {
+            server.close(() => done());
+            server = undefined;
+        } else {
+            done();
+        }
+    });
+
+    it('runs without document or window', () => {
+        expect(typeof document).toBe('undefined');
+        expect(typeof window).toBe('undefined');
+    });
+
+    it('receives messages and resolves when the stream closes', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            writeStream(res, 'id: 1\ndata: foo\n\nid: 2\nevent: bar\ndata: baz\n\n');
+        });
+        server = started.server;
+        const messages: EventSourceMessage[] = [];
+        let closed = 0;
+
+        // act:
+        await fetchEventSource(started.url, {
+            onmessage: msg => messages.push(msg),
+            onclose: () => ++closed,
+        });
+
+        // assert:
+        expect(messages.map(m => m.data)).toEqual(['foo', 'baz']);
+        expect(messages[1].event).toBe('bar');
+        expect(closed).toBe(1);
+    });
+
+    it('dispatches decoded payloads to per-event handlers', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            writeStream(res, 'event: delta\ndata: {"text":"a"}\n\nevent: delta\ndata: oops\n\nevent: done\ndata: {"total":1}\n\n');
+        });
+        server = started.server;
+        const received: string[] = [];
+        const decodeErrors: string[] = [];
+
+        // act:
+        await fetchEventSource<{ delta: { text: string }, done: { total: number } }>(started.url, {
+            handlers: {
+                delta: payload => { received.push(payload.text); },
+                done: payload => { received.push(`total ${payload.total}`); },
+            },
+            ondecodeerror: err => decodeErrors.push(err.event.data),
+        });
+
+        // assert:
+        expect(received).toEqual(['a', 'total 1']);
+        expect(decodeErrors).toEqual(['oops']);
+    });
+
+    it('reconnects with the last event id', async () => {
+        // arrange:
+        const lastEventIds: Array<string | undefined> = [];
+        const started = await startServer((req, res, attempt) => {
+            lastEventIds.push(req.headers['last-event-id'] as string | undefined);
+            if (attempt === 1) {
+                // drop the connection after the first message:
+                res.writeHead(200, { 'content-type': EventStreamContentType });
+                res.write('retry: 10\nid: abc\ndata: first\n\n');
+                setTimeout(() => res.destroy(), 20);
+            } else {
+                writeStream(res, 'data: second\n\n');
+            }
+        });
+        server = started.server;
+        const data: string[] = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            onmessage: msg => data.push(msg.data),
+        });
+
+        // assert:
+        expect(data).toEqual(['first', 'second']);
+        expect(lastEventIds).toEqual([undefined, 'abc']);
+    });
+
+    it('resolves when the signal is aborted', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': EventStreamContentType });
+            res.write('data: hello\n\n');
+            // keep the connection open
+        });
+        server = started.server;
+        const ctrl = new AbortController();
+        const data: string[] = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            signal: ctrl.signal,
+            onmessage: msg => {
+                data.push(msg.data);
+                ctrl.abort();
+            },
+        });
+
+        // assert:
+        expect(data).toEqual(['hello']);
+    });
+
+    it('reconnects after a clean close when reconnectOnClose is set', async () => {
+        // arrange:
+        const lastEventIds: Array<string | undefined> = [];
+        const started = await startServer((req, res, attempt) => {
+            lastEventIds.push(req.headers['last-event-id'] as string | undefined);
+            writeStream(res, `retry: 10\nid: ${attempt}\ndata: ${attempt}\n\n`);
+        });
+        server = started.server;
+        const ctrl = new AbortController();
+        const data: string[] = [];
+        const errors: any[] = [];
+        let closed = 0;
+
+        // act:
+        await fetchEventSource(started.url, {
+            signal: ctrl.signal,
+            reconnectOnClose: true,
+            onmessage: msg => {
+                data.push(msg.data);
+                if (data.length === 3) {
+                    ctrl.abort();
+                }
+            },
+            onclose: () => ++closed,
+            onerror: err => { errors.push(err); },
+        });
+
+        // assert:
+        expect(data).toEqual(['1', '2', '3']);
+        expect(lastEventIds).toEqual([undefined, '1', '2']);
+        expect(closed).toBe(2);
+        expect(errors.length).toBe(2);
+        expect(errors.every(err => err instanceof StreamClosedError)).toBe(true);
+    });
+
+    it('rejects when onerror throws', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': 'text/plain' });
+            res.end('not a stream');
+        });
+        server = started.server;
+
+        // act:
+        const result = fetchEventSource(started.url, {
+            onerror: err => { throw err; },
+        });
+
+        // assert:
+        await expectAsync(result).toBeRejectedWithError(/Expected content-type/);
+    });
+
+    it('rejects on a client error without a retry policy', async () => {
+        // arrange:
+        let requests = 0;
+        const started = await startServer((_req, res) => {
+            requests++;
+            res.writeHead(403);
+            res.end();
+        });
+        server = started.server;
+        const errors: any[] = [];
+
+        // act:
+        const result = fetchEventSource(started.url, {
+            onerror: err => { errors.push(err); },
+        });
+
+        // assert:
+        await expectAsync(result).toBeRejectedWith(jasmine.any(ResponseError));
+        expect(requests).toBe(1);
+        expect(errors.length).toBe(1);
+    });
+
+    it('retries a client error without a retry policy when onerror returns an interval', async () => {
+        // arrange:
+        const started = await startServer((_req, res, attempt) => {
+            if (attempt === 1) {
+                res.writeHead(404);
+                res.end();
+            } else {
+                writeStream(res, 'data: found\n\n');
+            }
+        });
+        server = started.server;
+        const data: string[] = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            onmessage: msg => data.push(msg.data),
+            onerror: () => 10,
+        });
+
+        // assert:
+        expect(data).toEqual(['found']);
+    });
+
+    it('passes the attempt number to onerror and resets it after a successful open', async () => {
+        // arrange:
+        const started = await startServer((_req, res, attempt) => {
+            if (attempt === 1 || attempt === 2 || attempt === 4) {
+                res.writeHead(503);
+                res.end();
+            } else if (attempt === 3) {
+                res.writeHead(200, { 'content-type': EventStreamContentType });
+                res.write('data: first\n\n');
+                setTimeout(() => res.destroy(), 20);
+            } else {
+                writeStream(res, 'data: second\n\n');
+            }
+        });
+        server = started.server;
+        const attempts: number[] = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            retry: { initialInterval: 5, jitter: 0 },
+            onerror: (_err, attempt) => { attempts.push(attempt); },
+        });
+
+        // assert:
+        expect(attempts).toEqual([1, 2, 1, 2]);
+    });
+
+    it('rejects with a RetryError on a client error when a retry policy is set', async () => {
+        // arrange:
+        let requests = 0;
+        const started = await startServer((_req, res) => {
+            requests++;
+            res.writeHead(401);
+            res.end();
+        });
+        server = started.server;
+
+        // act:
+        const result = fetchEventSource(started.url, {
+            retry: { initialInterval: 5 },
+        });
+
+        // assert:
+        await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ reason: 'fatal', attempts: 1 }));
+        expect(requests).toBe(1);
+    });
+
+    it('rejects with a RetryError once max attempts run out', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(500);
+            res.end();
+        });
+        server = started.server;
+
+        // act:
+        const error = await fetchEventSource(started.url, {
+            retry: { initialInterval: 1, maxAttempts: 3 },
+        }).catch(err => err);
+
+        // assert:
+        expect(error).toBeInstanceOf(RetryError);
+        expect(error.reason).toBe('max-attempts');
+        expect(error.attempts).toBe(3);
+        expect(error.cause.status).toBe(500);
+    });
+
+    it('reconnects with the last event id when the connection goes idle', async () => {
+        // arrange:
+        const lastEventIds: Array<string | undefined> = [];
+        const started = await startServer((req, res, attempt) => {
+            lastEventIds.push(req.headers['last-event-id'] as string | undefined);
+            if (attempt === 1) {
+                // stop sending without closing the connection:
+                res.writeHead(200, { 'content-type': EventStreamContentType });
+                res.write('retry: 10\nid: 1\ndata: first\n\n');
+            } else {
+                writeStream(res, 'data: second\n\n');
+            }
+        });
+        server = started.server;
+        const data: string[] = [];
+        const errors: any[] = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            idleTimeout: 100,
+            onmessage: msg => data.push(msg.data),
+            onerror: err => { errors.push(err); },
+        });
+
+        // assert:
+        expect(data).toEqual(['first', 'second']);
+        expect(lastEventIds).toEqual([undefined, '1']);
+        expect(errors.length).toBe(1);
+        expect(errors[0]).toBeInstanceOf(IdleTimeoutError);
+    });
+
+    it('keeps the connection open while keep-alive comments arrive', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': EventStreamContentType });
+            let count = 0;
+            const timer = setInterval(() => {
+                if (++count < 5) {
+                    res.write(': ping\n');
+                } else {
+                    clearInterval(timer);
+                    res.end('data: done\n\n');
+                }
+            }, 40);
+        });
+        server = started.server;
+        const comments: string[] = [];
+        const data: string[] = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            idleTimeout: 100,
+            oncomment: comment => comments.push(comment),
+            onmessage: msg => data.push(msg.data),
+            onerror: err => { throw err; },
+        });
+
+        // assert:
+        expect(comments).toEqual(['ping', 'ping', 'ping', 'ping']);
+        expect(data).toEqual(['done']);
+    });
+
+    it('resumes from the stored last event id and drops replayed messages', async () => {
+        // arrange:
+        const lastEventIds: Array<string | undefined> = [];
+        const started = await startServer((req, res) => {
+            lastEventIds.push(req.headers['last-event-id'] as string | undefined);
+            // replays the last delivered event before sending new ones:
+            writeStream(res, 'id: 1\ndata: a\n\nid: 2\ndata: b\n\ndata: no id\n\n');
+        });
+        server = started.server;
+        const storage = new MemoryLastEventIdStorage();
+        storage.set(started.url, '1');
+        const data: string[] = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            lastEventIdStorage: storage,
+            dedupe: true,
+            onmessage: msg => data.push(msg.data),
+        });
+
+        // assert:
+        expect(lastEventIds).toEqual(['1']);
+        expect(data).toEqual(['b', 'no id']);
+        expect(storage.get(started.url)).toBe('2');
+    });
+
+    it('flushes the last event id storage when the stream ends', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => writeStream(res, 'id: 1\ndata: a\n\n'));
+        server = started.server;
+        const storage = new MemoryLastEventIdStorage();
+        let flushed: string | undefined;
+        const withFlush = Object.assign(storage, { flush: () => { flushed = storage.get(started.url); } });
+
+        // act:
+        await fetchEventSource(started.url, {
+            lastEventIdStorage: withFlush,
+            onmessage: () => {},
+        });
+        await Promise.resolve();
+
+        // assert:
+        expect(flushed).toBe('1');
+    });
+
+    it('lets onbeforeconnect refresh an expired token after a 401', async () => {
+        // arrange:
+        const authorizations: Array<string | undefined> = [];
+        const started = await startServer((req, res) => {
+            authorizations.push(req.headers.authorization);
+            if (req.headers.authorization !== 'Bearer fresh') {
+                res.writeHead(401);
+                res.end();
+            } else {
+                writeStream(res, 'data: ok\n\n');
+            }
+        });
+        server = started.server;
+        const contexts: Array<{ attempt: number, status?: number }> = [];
+        const data: string[] = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            headers: { authorization: 'Bearer stale' },
+            retry: { initialInterval: 5 },
+            onbeforeconnect: async ({ attempt, error }) => {
+                contexts.push({ attempt, status: error instanceof ResponseError ? error.status : undefined });
+                if (error instanceof ResponseError && error.status === 401) {
+                    return { headers: { authorization: 'Bearer fresh' } };
+                }
+            },
+            onmessage: msg => data.push(msg.data),
+        });
+
+        // assert:
+        expect(authorizations).toEqual(['Bearer stale', 'Bearer fresh']);
+        expect(contexts).toEqual([{ attempt: 0, status: undefined }, { attempt: 1, status: 401 }]);
+        expect(data).toEqual(['ok']);
+    });
+
+    it('treats a repeated 401 as fatal even with onbeforeconnect', async () => {
+        // arrange:
+        let requests = 0;
+        const started = await startServer((_req, res) => {
+            requests++;
+            res.writeHead(401);
+            res.end();
+        });
+        server = started.server;
+
+        // act:
+        const result = fetchEventSource(started.url, {
+            retry: { initialInterval: 5 },
+            onbeforeconnect: () => ({ headers: { authorization: 'Bearer still-wrong' } }),
+        });
+
+        // assert:
+        await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ reason: 'fatal' }));
+        expect(requests).toBe(2);
+    });
+
+    it('passes the last event id to onbeforeconnect and can switch the url or stop', async () => {
+        // arrange:
+        const paths: string[] = [];
+        const started = await startServer((req, res) => {
+            paths.push(req.url!);
+            res.writeHead(200, { 'content-type': EventStreamContentType });
+            res.write('retry: 5\nid: 9\ndata: x\n\n');
+            setTimeout(() => res.destroy(), 20);
+        });
+        server = started.server;
+        const lastEventIds: Array<string | undefined> = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            onbeforeconnect: ({ lastEventId }) => {
+                lastEventIds.push(lastEventId);
+                if (lastEventIds.length === 2) {
+                    return { input: started.url + 'moved' };
+                }
+                if (lastEventIds.length === 3) {
+                    return false;
+                }
+            },
+        });
+
+        // assert:
+        expect(lastEventIds).toEqual([undefined, '9', '9']);
+        expect(paths).toEqual(['/', '/moved']);
+    });
+
+    it('rejects when onbeforeconnect throws', async () => {
+        // act:
+        const result = fetchEventSource('http://127.0.0.1:1/', {
+            onbeforeconnect: () => { throw new Error('no credentials'); },
+        });
+
+        // assert:
+        await expectAsync(result).toBeRejectedWithError('no credentials');
+    });
+
+    it('rejects without retrying when a line is too long', async () => {
+        // arrange:
+        let requests = 0;
+        const started = await startServer((_req, res) => {
+            requests++;
+            writeStream(res, `data: ${'x'.repeat(1000)}\n\n`);
+        });
+        server = started.server;
+
+        // act:
+        const result = fetchEventSource(started.url, { maxLineLength: 100 });
+
+        // assert:
+        await expectAsync(result).toBeRejectedWithError(MaxSizeExceededError);
+        expect(requests).toBe(1);
+    });
+
+    it('delivers one parsed object per line of an NDJSON stream', async () => {
+        // arrange:
+        let accept: string | undefined;
+        const started = await startServer((req, res) => {
+            accept = req.headers.accept;
+            res.writeHead(200, { 'content-type': NdjsonContentType });
+            res.end('{"n":1}\r\n\n  \n{"n":2}\nnot json\n{"n":3}');
+        });
+        server = started.server;
+        const received: number[] = [];
+        const decodeErrors: string[] = [];
+
+        // act:
+        await fetchEventSource<{ message: { n: number } }>(started.url, {
+            format: 'ndjson',
+            handlers: { message: payload => { received.push(payload.n); } },
+            ondecodeerror: err => decodeErrors.push(err.event.data),
+        });
+
+        // assert:
+        expect(accept).toContain(NdjsonContentType);
+        expect(accept).not.toContain(EventStreamContentType);
+        expect(received).toEqual([1, 2, 3]);
+        expect(decodeErrors).toEqual(['not json']);
+    });
+
+    it('reconnects an NDJSON stream', async () => {
+        // arrange:
+        const started = await startServer((_req, res, attempt) => {
+            res.writeHead(200, { 'content-type': 'application/jsonl' });
+            if (attempt === 1) {
+                res.write('{"n":1}\n');
+                setTimeout(() => res.destroy(), 20);
+            } else {
+                res.end('{"n":2}\n');
+            }
+        });
+        server = started.server;
+        const data: string[] = [];
+
+        // act:
+        await fetchEventSource(started.url, {
+            format: 'ndjson',
+            onmessage: msg => data.push(msg.data),
+            onerror: () => 10,
+        });
+
+        // assert:
+        expect(data).toEqual(['{"n":1}', '{"n":2}']);
+    });
+
+    it('picks the format from the content-type in auto mode', async () => {
+        // arrange:
+        const accepts: Array<string | undefined> = [];
+        const started = await startServer((req, res, attempt) => {
+            accepts.push(req.headers.accept);
+            if (attempt === 1) {
+                res.writeHead(200, { 'content-type': `${NdjsonContentType}; charset=utf-8` });
+                res.end('{"n":1}\n');
+            } else {
+                writeStream(res, 'data: {"n":2}\n\n');
+            }
+        });
+        server = started.server;
+        const received: number[] = [];
+
+        // act:
+        for (let i = 0; i < 2; i++) {
+            await fetchEventSource<{ message: { n: number } }>(started.url, {
+                format: 'auto',
+                handlers: { message: payload => { received.push(payload.n); } },
+            });
+        }
+
+        // assert:
+        expect(received).toEqual([1, 2]);
+        expect(accepts[0]).toContain(EventStreamContentType);
+        expect(accepts[0]).toContain(NdjsonContentType);
+    });
+
+    it('rejects an event stream when NDJSON is expected', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            writeStream(res, 'data: hello\n\n');
+        });
+        server = started.server;
+
+        // act:
+        const result = fetchEventSource(started.url, {
+            format: 'ndjson',
+            onerror: err => { throw err; },
+        });
+
+        // assert:
+        await expectAsync(result).toBeRejectedWithError(ResponseError, /Expected content-type to be application\/x-ndjson/);
+    });
+
+    it('rejects when no fetch implementation is available', async () => {
+        // arrange:
+        const original = globalThis.fetch;
+        (globalThis as any).fetch = undefined;
+
+        try {
+            // act:
+            const result = fetchEventSource('http://127.0.0.1:1/', {});
+
+            // assert:
+            await expectAsync(result).toBeRejectedWithError(/fetch is not available/);
+        } finally {
+            globalThis.fetch = original;
+        }
+    });
+});
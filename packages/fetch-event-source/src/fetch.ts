@@ -1,44 +1,267 @@
-import { EventSourceMessage, getBytes, getLines, getMessages } from "./parse";
+import {
+  EventSourceMessage,
+  getBytes,
+  getJsonLines,
+  getLines,
+  getMessages,
+  MaxSizeExceededError,
+} from "./parse";
+import {
+  isRetriableError,
+  ResponseError,
+  RetryPolicy,
+  RetryState,
+} from "./retry";
+import { createEventDispatcher, DecodeError, EventHandlers } from "./events";
+import { getStorageKey, LastEventIdStorage, SeenIds } from "./storage";
+import {
+  ReconnectReason,
+  StreamMetrics,
+  StreamObserver,
+  StreamStats,
+} from "./metrics";
 
 export const EventStreamContentType = "text/event-stream";
+export const NdjsonContentType = "application/x-ndjson";
+
+// content types recognized as newline-delimited JSON:
+const NdjsonContentTypes = [
+  NdjsonContentType,
+  "application/ndjson",
+  "application/jsonl",
+  "application/x-jsonlines",
+];
+
+/**
+ * The wire format of the stream: server-sent events, newline-delimited JSON,
+ * or whichever of the two the response's content-type says.
+ */
+export type StreamFormat = "sse" | "ndjson" | "auto";
 
 const DefaultRetryInterval = 1000;
+const DefaultDedupeCapacity = 1000;
 const LastEventId = "last-event-id";
 
-export interface FetchEventSourceInit extends RequestInit {
+/** Passed to `onbeforeconnect`. */
+export interface ConnectContext {
+  /** Consecutive failed attempts so far; 0 for the first connection and after a successful open. */
+  attempt: number;
+  /** The error that caused the reconnect, if any. */
+  error?: any;
+  /** The id that will be sent as `Last-Event-ID`, if any. */
+  lastEventId?: string;
+  /** The url or request for this connection. */
+  input: RequestInfo;
+  /** The headers for this connection. */
+  headers: Record<string, string>;
+}
+
+/** Returned from `onbeforeconnect` to change the request for this and later connections. */
+export interface ConnectOverrides {
+  input?: RequestInfo;
+  /** Merged into the current headers. */
+  headers?: Record<string, string>;
+  body?: BodyInit | null;
+}
+
+/**
+ * @typeParam TEvents Maps event names to payload types for `handlers`.
+ */
+export interface FetchEventSourceInit<
+  TEvents extends Record<string, any> = Record<string, any>
+> extends RequestInit {
   headers?: Record<string, string>;
   onopen?: (response: Response) => Promise<void>;
-  onmessage?: (ev: EventSourceMessage) => void;
+  /**
+   * Called for each message. If it returns a promise, reading from the stream
+   * pauses until the promise settles.
+   */
+  onmessage?: (ev: EventSourceMessage) => unknown;
+  /**
+   * Handlers keyed by event name, called with the decoded payload after
+   * `onmessage`. Payloads are decoded as JSON unless a handler says otherwise.
+   */
+  handlers?: EventHandlers<TEvents>;
+  /**
+   * Called when a payload for one of `handlers` fails to decode or validate.
+   * The message is skipped and the connection stays open.
+   */
+  ondecodeerror?: (err: DecodeError) => void;
   onclose?: () => void;
-  onerror?: (err: any) => number | null | undefined | void;
+  /**
+   * Reconnect when the server closes the stream, like `EventSource`, instead
+   * of resolving. `onclose` is still called, then the reconnect goes through
+   * `onerror` and the retry policy with a `StreamClosedError`.
+   */
+  reconnectOnClose?: boolean;
+  /**
+   * Called when the connection fails. `attempt` counts consecutive failures and
+   * resets after a successful open. Return a number to override the retry
+   * interval, or throw to stop retrying and reject the promise. Without a
+   * `retry` policy, a client error on open (4xx other than 408 and 429) or a
+   * 204 No Content, which servers send to stop clients from reconnecting,
+   * rejects the promise with its `ResponseError` unless this returns a number.
+   */
+  onerror?: (err: any, attempt: number) => number | null | undefined | void;
   openWhenHidden?: boolean;
   fetch?: typeof fetch;
+  /**
+   * "sse" (the default), "ndjson" for newline-delimited JSON, or "auto" to
+   * accept both and pick by the response's content-type. In NDJSON streams
+   * every non-blank line is delivered as a message with the line as `data`,
+   * so `handlers.message` receives one parsed object per line; there are no
+   * event names, ids or server retry intervals.
+   */
+  format?: StreamFormat;
+  /**
+   * Backoff, jitter and give-up rules for reconnecting. Without a policy the
+   * connection is retried forever at a fixed interval, except after a client
+   * error or a 204 (see `onerror`). When the policy gives up, the promise rejects with a
+   * `RetryError`.
+   */
+  retry?: RetryPolicy;
+  /**
+   * Parse the stream exactly as the HTML spec describes (the default). Set to
+   * false for servers that rely on the lenient parsing of earlier versions,
+   * see `ParseOptions`.
+   */
+  strict?: boolean;
+  /**
+   * The maximum length of a line in bytes. Larger lines abort the stream and
+   * reject the promise with a `MaxSizeExceededError`, without retrying.
+   */
+  maxLineLength?: number;
+  /** Like `maxLineLength`, for the total `data` of one message (in characters). */
+  maxMessageSize?: number;
+  /**
+   * Abort and reconnect (through the normal retry path, with `Last-Event-ID`)
+   * if no bytes arrive for this many milliseconds. Any bytes reset the timer,
+   * including `:` comment lines servers send as keep-alives. The timer is
+   * paused while a promise returned by a message handler is pending.
+   * Disabled by default.
+   */
+  idleTimeout?: number;
+  /** Called for each `:` comment line, e.g. server keep-alives. */
+  oncomment?: (comment: string) => void;
+  /**
+   * Saves the last event id as messages arrive and sends it as
+   * `Last-Event-ID` on the first connection, so the stream resumes after a
+   * reload or restart. An explicit `last-event-id` header takes precedence.
+   * Its `flush` method, if any, is called when the stream ends.
+   */
+  lastEventIdStorage?: LastEventIdStorage;
+  /** The key for `lastEventIdStorage`. Defaults to the request url. */
+  lastEventIdKey?: string;
+  /**
+   * Drop messages whose id was already delivered, e.g. when a server replays
+   * the last event on resume. Pass a number to set how many recent ids are
+   * remembered (default 1000).
+   */
+  dedupe?: boolean | number;
+  /**
+   * Called before every connection, including the first, e.g. to refresh an
+   * expired token. Return new headers, url or body to use from now on, or
+   * `false` to stop connecting (the promise resolves). Throwing rejects the
+   * promise. When this hook is set, a 401 on open is retried once even if the
+   * retry policy treats client errors as fatal, so the hook can refresh
+   * credentials.
+   */
+  onbeforeconnect?: (
+    context: ConnectContext
+  ) =>
+    | ConnectOverrides
+    | false
+    | void
+    | Promise<ConnectOverrides | false | void>;
+  /**
+   * Receives connection lifecycle events: connect attempts, opens with their
+   * time to first byte, disconnects, reconnects with their reason and
+   * interval, and the end of the stream with its final stats.
+   */
+  observer?: StreamObserver;
 }
 
-export function fetchEventSource(
+/** The promise returned by `fetchEventSource`. */
+export interface FetchEventSourceHandle extends Promise<void> {
+  /** Returns a snapshot of the stream's connection metrics. */
+  stats(): StreamStats;
+}
+
+/**
+ * Passed to `onerror` (and the retry policy) when the server closed the stream
+ * and `reconnectOnClose` is set.
+ */
+export class StreamClosedError extends Error {
+  constructor() {
+    super("The server closed the stream");
+    this.name = "StreamClosedError";
+  }
+}
+
+/**
+ * Passed to `onerror` (and the retry policy) when no bytes arrived within
+ * `idleTimeout`.
+ */
+export class IdleTimeoutError extends Error {
+  constructor(public readonly timeout: number) {
+    super(`No data received for ${timeout}ms`);
+    this.name = "IdleTimeoutError";
+  }
+}
+
+export function fetchEventSource<
+  TEvents extends Record<string, any> = Record<string, any>
+>(
   input: RequestInfo,
   {
     signal: inputSignal,
     headers: inputHeaders,
     onopen: inputOnOpen,
     onmessage,
+    handlers,
+    ondecodeerror,
     onclose,
+    reconnectOnClose,
     onerror,
     openWhenHidden,
     fetch: inputFetch,
+    format = "sse",
+    retry,
+    strict,
+    maxLineLength,
+    maxMessageSize,
+    idleTimeout,
+    oncomment,
+    lastEventIdStorage,
+    lastEventIdKey = getStorageKey(input),
+    dedupe,
+    onbeforeconnect,
+    observer,
     ...rest
-  }: FetchEventSourceInit
-) {
-  return new Promise<void>((resolve, reject) => {
+  }: FetchEventSourceInit<TEvents>
+): FetchEventSourceHandle {
+  const metrics = new StreamMetrics(observer);
+  const promise = new Promise<void>((resolve, reject) => {
+    let currentInput = input;
     const headers = { ...inputHeaders };
     if (!headers.accept) {
-      headers.accept = EventStreamContentType;
+      headers.accept = acceptedContentTypes(format).join(", ");
     }
 
+    const seenIds = dedupe
+      ? new SeenIds(dedupe === true ? DefaultDedupeCapacity : dedupe)
+      : undefined;
+    // 只有带 id 字段的消息才参与去重
+    let messageHasId = false;
+
     let curRequestController: AbortController;
     let isCompleted = false;
     let isAborting = false;
 
+    // Page Visibility is only available where there is a document (not in
+    // Node, Deno, Bun, web workers or during SSR):
+    const hasDocument = typeof document !== "undefined";
+
     function onVisibilityChange() {
       if (document.hidden) {
         isAborting = true;
@@ -49,16 +272,31 @@ export function fetchEventSource(
       }
     }
 
-    if (!openWhenHidden) {
+    if (!openWhenHidden && hasDocument) {
       document.addEventListener("visibilitychange", onVisibilityChange);
     }
 
     let retryInterval = DefaultRetryInterval;
-    let retryTimer = 0;
+    let serverRetryInterval: number | undefined;
+    let lastError: any;
+    const retryState = new RetryState(
+      retry && onbeforeconnect
+        ? {
+            ...retry,
+            // 给 onbeforeconnect 一次刷新凭证的机会
+            isRetriable: (err) =>
+              (isUnauthorized(err) && !isUnauthorized(lastError)) ||
+              (retry.isRetriable ?? isRetriableError)(err),
+          }
+        : retry ?? {}
+    );
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
 
     function dispose() {
-      document.removeEventListener("visibilitychange", onVisibilityChange);
-      window.clearTimeout(retryTimer);
+      if (hasDocument) {
+        document.removeEventListener("visibilitychange", onVisibilityChange);
+      }
+      clearTimeout(retryTimer);
       if (!isCompleted && !isAborting) {
         curRequestController.abort();
       }
@@ -73,12 +311,50 @@ export function fetchEventSource(
       resolve();
     });
 
-    const fetch = inputFetch ?? window.fetch;
-    const onopen = inputOnOpen ?? defaultOnOpen;
+    const fetch = inputFetch ?? globalThis.fetch;
+    const onopen =
+      inputOnOpen ?? (async (response) => defaultOnOpen(response, format));
+    const dispatch = handlers && createEventDispatcher(handlers, ondecodeerror);
+
+    try {
+      const storedId = lastEventIdStorage?.get(lastEventIdKey);
+      if (storedId && headers[LastEventId] === undefined) {
+        headers[LastEventId] = storedId;
+      }
+      if (storedId) {
+        seenIds?.add(storedId);
+      }
+    } catch (err) {
+      reject(err);
+      return;
+    }
+
+    if (typeof fetch !== "function") {
+      reject(
+        new Error(
+          "fetch is not available in this environment, pass a fetch implementation via the `fetch` option"
+        )
+      );
+      return;
+    }
 
     async function create() {
       // 创建一个新的 AbortController
       curRequestController = new AbortController();
+      const requestController = curRequestController;
+
+      // 空闲超时：一段时间内没有收到任何数据时中止请求并重连
+      let idleTimer: ReturnType<typeof setTimeout> | undefined;
+      let isIdle = false;
+      function resetIdleTimer() {
+        clearTimeout(idleTimer);
+        if (idleTimeout) {
+          idleTimer = setTimeout(() => {
+            isIdle = true;
+            requestController.abort();
+          }, idleTimeout);
+        }
+      }
 
       // 如果外部已经请求中止，直接返回
       if (inputSignal?.aborted) {
@@ -88,8 +364,43 @@ export function fetchEventSource(
         return;
       }
 
+      if (onbeforeconnect) {
+        let overrides: ConnectOverrides | false | void;
+        try {
+          overrides = await onbeforeconnect({
+            attempt: retryState.attempt,
+            error: lastError,
+            lastEventId: headers[LastEventId],
+            input: currentInput,
+            headers: { ...headers },
+          });
+        } catch (err) {
+          dispose();
+          reject(err);
+          return;
+        }
+        if (inputSignal?.aborted || requestController.signal.aborted) {
+          return; // aborted or hidden while the hook was running
+        }
+        if (overrides === false) {
+          isAborting = true;
+          dispose();
+          resolve();
+          return;
+        }
+        if (overrides) {
+          currentInput = overrides.input ?? currentInput;
+          Object.assign(headers, overrides.headers);
+          if ("body" in overrides) {
+            rest.body = overrides.body;
+          }
+        }
+      }
+
       try {
-        const response = await fetch(input, {
+        metrics.connect(retryState.attempt, currentInput);
+        resetIdleTimer();
+        const response = await fetch(currentInput, {
           ...rest,
           headers,
           // 使用外部和内部的 signal 组合
@@ -97,46 +408,106 @@ export function fetchEventSource(
             ? composeSignals(inputSignal, curRequestController.signal)
             : curRequestController.signal,
         });
+        const responseAt = Date.now();
 
         await onopen(response);
+        metrics.open(retryState.attempt, responseAt);
+        retryState.reset();
+        lastError = undefined;
 
-        await getBytes(
-          response.body!,
-          getLines(
-            getMessages(
-              (id) => {
-                if (id) {
-                  headers[LastEventId] = id;
-                } else {
-                  delete headers[LastEventId];
-                }
-              },
-              (retry) => {
-                retryInterval = retry;
-              },
-              onmessage
-            )
-          )
+        // promises returned by onmessage for the current chunk:
+        let pending: PromiseLike<unknown>[] = [];
+        const onMessage = (msg: EventSourceMessage) => {
+          const hasId = messageHasId;
+          messageHasId = false;
+          if (seenIds && hasId && msg.id) {
+            if (seenIds.has(msg.id)) {
+              return; // already delivered
+            }
+            seenIds.add(msg.id);
+          }
+          metrics.message();
+          for (const handler of [onmessage, dispatch]) {
+            const result: unknown = handler?.(msg);
+            if (isPromiseLike(result)) {
+              pending.push(result);
+            }
+          }
+        };
+        const isNdjson =
+          format === "ndjson" ||
+          (format === "auto" && isNdjsonResponse(response));
+        const onChunk = getLines(
+          isNdjson
+            ? getJsonLines(onMessage)
+            : getMessages(
+                (id) => {
+                  messageHasId = true;
+                  if (id) {
+                    headers[LastEventId] = id;
+                    lastEventIdStorage?.set(lastEventIdKey, id);
+                  } else {
+                    delete headers[LastEventId];
+                    lastEventIdStorage?.delete(lastEventIdKey);
+                  }
+                },
+                (retry) => {
+                  retryInterval = serverRetryInterval = retry;
+                },
+                onMessage,
+                { strict, onComment: oncomment, maxMessageSize }
+              ),
+          { maxLineLength }
         );
 
-        isCompleted = true;
+        resetIdleTimer();
+        await getBytes(response.body!, (chunk) => {
+          clearTimeout(idleTimer);
+          metrics.bytes(chunk.length);
+          onChunk(chunk);
+          if (pending.length) {
+            const settled = Promise.all(pending);
+            pending = [];
+            return settled.then(resetIdleTimer);
+          }
+          resetIdleTimer();
+        });
+        clearTimeout(idleTimer);
+        if (isNdjson) {
+          // NDJSON 的最后一行可以没有换行符
+          onChunk(new Uint8Array([0x0a]));
+          await Promise.all(pending);
+        }
+
+        metrics.disconnect();
+        isCompleted = !reconnectOnClose;
         onclose?.();
+        if (!isCompleted) {
+          if (!isAborting && !inputSignal?.aborted) {
+            reconnect(new StreamClosedError());
+          }
+          return;
+        }
         dispose();
         resolve();
       } catch (err: any) {
-        if (!curRequestController.signal.aborted) {
-          try {
-            // 如果是 AbortError 且是正常中断，不重试
-            if (err.name === "AbortError" && isAborting) {
-              return;
-            }
-            const interval: any = onerror?.(err) ?? retryInterval;
-            window.clearTimeout(retryTimer);
-            retryTimer = window.setTimeout(create, interval);
-          } catch (innerErr) {
-            dispose();
-            reject(innerErr);
+        clearTimeout(idleTimer);
+        metrics.disconnect();
+        if (isIdle && !inputSignal?.aborted && !isAborting) {
+          err = new IdleTimeoutError(idleTimeout!);
+        }
+        if (err instanceof MaxSizeExceededError) {
+          // 超出大小限制时不重试，避免无限占用内存
+          dispose();
+          reject(err);
+          return;
+        }
+        if (!requestController.signal.aborted || err instanceof IdleTimeoutError) {
+          // 如果是 AbortError 且是正常中断，不重试
+          if (err.name === "AbortError" && isAborting) {
+            return;
           }
+          reconnect(err);
         } else if (inputSignal?.aborted) {
           // 如果是外部 abort 触发的，直接 resolve
           resolve();
@@ -144,8 +515,53 @@ export function fetchEventSource(
       }
     }
 
+    // 按 onerror 与重试策略安排下一次连接，onerror 或策略抛错时结束
+    function reconnect(err: any) {
+      try {
+        const attempt = retryState.fail();
+        const override = onerror?.(err, attempt);
+        if (!retry && override == null && isFatalResponse(err)) {
+          // 没有重试策略时，客户端错误不会自行恢复，204 表示服务端要求停止重连
+          // （配置了 onbeforeconnect 时，401 仍会重试一次以便刷新凭证）
+          if (!onbeforeconnect || !isUnauthorized(err) || isUnauthorized(lastError)) {
+            throw err;
+          }
+        }
+        const delay = retry
+          ? retryState.next(err, serverRetryInterval)
+          : retryInterval;
+        const interval: any = override ?? delay;
+        metrics.reconnect(attempt, reconnectReason(err), err, interval);
+        lastError = err;
+        clearTimeout(retryTimer);
+        retryTimer = setTimeout(create, interval);
+      } catch (innerErr) {
+        dispose();
+        reject(innerErr);
+      }
+    }
+
     create();
   });
+
+  promise.then(
+    () => metrics.end(),
+    (err) => metrics.end(err)
+  );
+  // write out buffered ids once the stream is done; storage errors are not ours to report:
+  const flushStorage = () => lastEventIdStorage?.flush?.();
+  promise.then(flushStorage, flushStorage).catch(() => {});
+  return Object.assign(promise, { stats: () => metrics.snapshot() });
+}
+
+function reconnectReason(err: any): ReconnectReason {
+  return err instanceof ResponseError
+    ? "response"
+    : err instanceof IdleTimeoutError
+    ? "idle-timeout"
+    : err instanceof StreamClosedError
+    ? "close"
+    : "error";
 }
 
 // 组合两个 signal
@@ -176,11 +592,65 @@ function composeSignals(
   return controller.signal;
 }
 
-function defaultOnOpen(response: Response) {
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
+
+// 4xx responses other than 408 and 429, which retrying won't fix, and 204,
+// which asks clients to stop reconnecting:
+function isFatalResponse(err: any) {
+  return (
+    err instanceof ResponseError &&
+    (err.status === 204 ||
+      (err.status >= 400 &&
+        err.status < 500 &&
+        err.status !== 408 &&
+        err.status !== 429))
+  );
+}
+
+function isUnauthorized(err: any) {
+  return err instanceof ResponseError && err.status === 401;
+}
+
+/**
+ * Checks that the response is successful and has a content-type matching
+ * `format`, and throws a `ResponseError` otherwise. Used when no `onopen` is
+ * given.
+ */
+export function defaultOnOpen(
+  response: Response,
+  format: StreamFormat = "sse"
+) {
+  if (!response.ok) {
+    throw new ResponseError(
+      `Unexpected response status ${response.status} ${response.statusText}`.trim(),
+      response
+    );
+  }
+  const accepted = acceptedContentTypes(format);
   const contentType = response.headers.get("content-type");
-  if (!contentType?.startsWith(EventStreamContentType)) {
-    throw new Error(
-      `Expected content-type to be ${EventStreamContentType}, Actual: ${contentType}`
+  if (!accepted.some((type) => contentType?.startsWith(type))) {
+    throw new ResponseError(
+      `Expected content-type to be ${accepted.join(" or ")}, Actual: ${contentType}`,
+      response
     );
   }
 }
+
+function acceptedContentTypes(format: StreamFormat) {
+  return format === "sse"
+    ? [EventStreamContentType]
+    : format === "ndjson"
+    ? NdjsonContentTypes
+    : [EventStreamContentType, ...NdjsonContentTypes];
+}
+
+function isNdjsonResponse(response: Response) {
+  const contentType = response.headers.get("content-type");
+  return NdjsonContentTypes.some((type) => contentType?.startsWith(type));
+}
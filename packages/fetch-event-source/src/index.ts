@@ -1,2 +1,11 @@
-export { fetchEventSource, FetchEventSourceInit, EventStreamContentType } from './fetch';
-export { EventSourceMessage } from './parse';
+export { fetchEventSource, FetchEventSourceInit, FetchEventSourceHandle, EventStreamContentType, NdjsonContentType, StreamFormat, IdleTimeoutError, StreamClosedError, ConnectContext, ConnectOverrides } from './fetch';
+export { StreamObserver, StreamStats, ReconnectReason, StreamConnectEvent, StreamOpenEvent, StreamDisconnectEvent, StreamReconnectEvent } from './metrics';
+export { RetryPolicy, RetryErrorReason, RetryError, ResponseError, isRetriableError } from './retry';
+export { EventHandlers, EventHandler, EventHandlerOptions, EventDecoder, DecodeError } from './events';
+export { LastEventIdStorage, MemoryLastEventIdStorage, WebLastEventIdStorage } from './storage';
+export { streamChatCompletion, ChatCompletionStreamInit, ChatCompletionResult, ChatStreamFormat, ChatToolCall, ChatUsage, ChatStreamError } from './llm';
+export { FetchEventSource, FetchEventSourceClassInit } from './eventsource';
+export { sharedFetchEventSource, SharedEventSourceInit } from './shared';
+export { eventSourceIterator, EventSourceIteratorInit } from './iterator';
+export { encodeMessage, encodeComment } from './encode';
+export { EventSourceMessage, ParseOptions, MaxSizeExceededError, getBytes, getLines, getMessages, getJsonLines } from './parse';
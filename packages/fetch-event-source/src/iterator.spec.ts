@@ -0,0 +1,146 @@
+import * as http from 'http';
+import { EventStreamContentType } from './fetch';
+import { eventSourceIterator } from './iterator';
+import { startServer, writeStream } from './test-server';
+
+describe('eventSourceIterator', () => {
+    let server: http.Server | undefined;
+
+    afterEach(done => {
+        if (server) {
+            server.close(() => done());
+            server = undefined;
+        } else {
+            done();
+        }
+    });
+
+    it('yields messages until the stream closes', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            writeStream(res, 'data: a\n\nevent: ping\ndata: b\n\ndata: c\n\n');
+        });
+        server = started.server;
+        const data: string[] = [];
+
+        // act:
+        for await (const msg of eventSourceIterator(started.url)) {
+            data.push(msg.data);
+        }
+
+        // assert:
+        expect(data).toEqual(['a', 'b', 'c']);
+    });
+
+    it('filters by event name', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            writeStream(res, 'data: a\n\nevent: ping\ndata: b\n\nevent: update\ndata: c\n\n');
+        });
+        server = started.server;
+        const data: string[] = [];
+
+        // act:
+        for await (const msg of eventSourceIterator(started.url, { events: ['message', 'update'] })) {
+            data.push(msg.data);
+        }
+
+        // assert:
+        expect(data).toEqual(['a', 'c']);
+    });
+
+    it('aborts the request when the consumer stops early', async () => {
+        // arrange:
+        let closed!: () => void;
+        const requestClosed = new Promise<void>(resolve => closed = resolve);
+        const started = await startServer((req, res) => {
+            req.on('close', closed);
+            res.writeHead(200, { 'content-type': EventStreamContentType });
+            res.write('data: a\n\ndata: b\n\n');
+            // keep the connection open
+        });
+        server = started.server;
+        const iterator = eventSourceIterator(started.url);
+
+        // act:
+        // (what `break` in a native `for await` does; the ES2017 downlevel
+        // emitted by TypeScript 4.9 skips the `return()` call)
+        const first = await iterator.next();
+        await iterator.return!();
+        const after = await iterator.next();
+        await requestClosed;
+
+        // assert:
+        expect(first.value.data).toBe('a');
+        expect(after.done).toBeTrue();
+    });
+
+    it('does not read ahead of the consumer', async () => {
+        // arrange:
+        let written = 0;
+        const started = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': EventStreamContentType });
+            const timer = setInterval(() => {
+                // stop once the socket buffers are full
+                if (written < 10000 && res.write(`data: ${written++}\n\n`)) {
+                    return;
+                }
+                clearInterval(timer);
+                res.end();
+            }, 0);
+            res.on('close', () => clearInterval(timer));
+        });
+        server = started.server;
+        const iterator = eventSourceIterator(started.url);
+
+        // act:
+        const first = await iterator.next();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        const second = await iterator.next();
+        await iterator.return!();
+
+        // assert:
+        expect(first.value.data).toBe('0');
+        expect(second.value.data).toBe('1');
+        expect(written).toBeLessThan(10000);
+    });
+
+    it('throws when the connection fails for good', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(404);
+            res.end();
+        });
+        server = started.server;
+
+        // act:
+        const consume = async () => {
+            for await (const _ of eventSourceIterator(started.url, { retry: {} })) {
+                // no messages expected
+            }
+        };
+
+        // assert:
+        await expectAsync(consume()).toBeRejectedWith(jasmine.objectContaining({ name: 'RetryError', reason: 'fatal' }));
+    });
+
+    it('ends when the signal is aborted', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': EventStreamContentType });
+            res.write('data: a\n\n');
+        });
+        server = started.server;
+        const ctrl = new AbortController();
+        const data: string[] = [];
+
+        // act:
+        for await (const msg of eventSourceIterator(started.url, { signal: ctrl.signal })) {
+            data.push(msg.data);
+            ctrl.abort();
+        }
+
+        // assert:
+        expect(data).toEqual(['a']);
+    });
+});
@@ -0,0 +1,129 @@
+import { fetchEventSource, FetchEventSourceInit } from "./fetch";
+import { EventSourceMessage } from "./parse";
+
+export interface EventSourceIteratorInit
+  extends Omit<FetchEventSourceInit, "onmessage"> {
+  /**
+   * Only yield messages with these event names. Messages without an `event`
+   * field have the name "message".
+   */
+  events?: string | string[];
+}
+
+/**
+ * Opens an event stream and returns its messages as an async iterable, for use
+ * with `for await`. Reconnection works the same as in `fetchEventSource`.
+ *
+ * The stream isn't read faster than the consumer pulls messages, and leaving
+ * the loop early (`break`, `return` or a thrown error) aborts the request.
+ * The iterator ends when the stream closes or the signal is aborted, and throws
+ * if the connection fails for good.
+ */
+export function eventSourceIterator(
+  input: RequestInfo,
+  { events, signal, ...init }: EventSourceIteratorInit = {}
+): AsyncIterableIterator<EventSourceMessage> {
+  const filter =
+    events === undefined
+      ? undefined
+      : new Set(Array.isArray(events) ? events : [events]);
+  const ctrl = new AbortController();
+  const queue: EventSourceMessage[] = [];
+
+  let started = false;
+  let finished = false;
+  let failed = false;
+  let failure: any;
+
+  // consumers waiting for a message, and the producer waiting for the queue to drain:
+  let consumerWaiters: Array<() => void> = [];
+  let producerWaiters: Array<() => void> = [];
+
+  function wakeConsumers() {
+    const waiters = consumerWaiters;
+    consumerWaiters = [];
+    waiters.forEach((wake) => wake());
+  }
+
+  function wakeProducer() {
+    const waiters = producerWaiters;
+    producerWaiters = [];
+    waiters.forEach((wake) => wake());
+  }
+
+  function onAbort() {
+    ctrl.abort();
+  }
+
+  function finish() {
+    finished = true;
+    signal?.removeEventListener("abort", onAbort);
+    wakeConsumers();
+    wakeProducer();
+  }
+
+  function start() {
+    started = true;
+    if (signal?.aborted) {
+      ctrl.abort();
+    } else {
+      signal?.addEventListener("abort", onAbort);
+    }
+
+    fetchEventSource(input, {
+      ...init,
+      signal: ctrl.signal,
+      onmessage(msg) {
+        if (finished || (filter && !filter.has(msg.event || "message"))) {
+          return;
+        }
+        queue.push(msg);
+        wakeConsumers();
+        return new Promise<void>((resolve) => producerWaiters.push(resolve));
+      },
+    }).then(finish, (err) => {
+      failed = true;
+      failure = err;
+      finish();
+    });
+  }
+
+  const iterator: AsyncIterableIterator<EventSourceMessage> = {
+    async next(): Promise<IteratorResult<EventSourceMessage>> {
+      if (!started) {
+        start();
+      }
+      while (true) {
+        if (queue.length) {
+          const value = queue.shift()!;
+          if (!queue.length) {
+            wakeProducer();
+          }
+          return { value, done: false };
+        }
+        if (failed) {
+          failed = false;
+          throw failure;
+        }
+        if (finished) {
+          return { value: undefined, done: true };
+        }
+        await new Promise<void>((resolve) => consumerWaiters.push(resolve));
+      }
+    },
+
+    async return(): Promise<IteratorResult<EventSourceMessage>> {
+      queue.length = 0;
+      failed = false;
+      ctrl.abort();
+      finish();
+      return { value: undefined, done: true };
+    },
+
+    [Symbol.asyncIterator]() {
+      return iterator;
+    },
+  };
+
+  return iterator;
+}
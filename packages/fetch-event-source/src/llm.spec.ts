@@ -0,0 +1,144 @@
+import * as http from 'http';
+import { EventStreamContentType } from './fetch';
+import { ChatStreamError, ChatToolCall, streamChatCompletion } from './llm';
+import { startServer, writeStream } from './test-server';
+
+function openAIChunk(delta: any, extra: any = {}) {
+    return `data: ${JSON.stringify({ id: 'chatcmpl-1', model: 'gpt', choices: [{ index: 0, delta, finish_reason: null }], ...extra })}\n\n`;
+}
+
+function anthropicEvent(event: string, data: any) {
+    return `event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`;
+}
+
+describe('streamChatCompletion', () => {
+    let server: http.Server | undefined;
+
+    afterEach(done => {
+        if (server) {
+            server.close(() => done());
+            server = undefined;
+        } else {
+            done();
+        }
+    });
+
+    it('assembles an OpenAI-compatible stream and stops at [DONE]', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': EventStreamContentType });
+            res.write(openAIChunk({ role: 'assistant', content: '' }));
+            res.write(openAIChunk({ content: 'Hel' }));
+            res.write(openAIChunk({ content: 'lo' }));
+            res.write(openAIChunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"ci' } }] }));
+            res.write(openAIChunk({ tool_calls: [{ index: 0, function: { arguments: 'ty":"Paris"}' } }] }));
+            res.write(`data: ${JSON.stringify({ id: 'chatcmpl-1', choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] })}\n\n`);
+            res.write(`data: ${JSON.stringify({ id: 'chatcmpl-1', choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } })}\n\n`);
+            res.write('data: [DONE]\n\n');
+            // keep the connection open; the client should stop reading by itself
+        });
+        server = started.server;
+        const deltas: string[] = [];
+        const toolCalls: ChatToolCall[] = [];
+        let finished = 0;
+
+        // act:
+        const result = await streamChatCompletion(started.url, {
+            method: 'POST',
+            body: '{}',
+            ontext: delta => deltas.push(delta),
+            ontoolcall: call => toolCalls.push(call),
+            onfinish: () => ++finished,
+        });
+
+        // assert:
+        expect(deltas).toEqual(['Hel', 'lo']);
+        expect(result).toEqual({
+            id: 'chatcmpl-1',
+            model: 'gpt',
+            text: 'Hello',
+            toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' }],
+            usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+            finishReason: 'tool_calls',
+        });
+        expect(toolCalls).toEqual(result.toolCalls);
+        expect(finished).toBe(1);
+    });
+
+    it('assembles an Anthropic stream', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            writeStream(res,
+                anthropicEvent('message_start', { message: { id: 'msg_1', model: 'claude', usage: { input_tokens: 12, output_tokens: 1 } } }) +
+                anthropicEvent('content_block_start', { index: 0, content_block: { type: 'text', text: '' } }) +
+                'event: ping\ndata: {"type": "ping"}\n\n' +
+                anthropicEvent('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'Hi ' } }) +
+                anthropicEvent('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'there' } }) +
+                anthropicEvent('content_block_stop', { index: 0 }) +
+                anthropicEvent('content_block_start', { index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: {} } }) +
+                anthropicEvent('content_block_delta', { index: 1, delta: { type: 'input_json_delta', partial_json: '{"q":' } }) +
+                anthropicEvent('content_block_delta', { index: 1, delta: { type: 'input_json_delta', partial_json: '"x"}' } }) +
+                anthropicEvent('content_block_stop', { index: 1 }) +
+                anthropicEvent('message_delta', { delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 20 } }) +
+                anthropicEvent('message_stop', {}));
+        });
+        server = started.server;
+        const usages: any[] = [];
+
+        // act:
+        const result = await streamChatCompletion(started.url, {
+            format: 'anthropic',
+            onusage: usage => usages.push(usage),
+        });
+
+        // assert:
+        expect(result).toEqual({
+            id: 'msg_1',
+            model: 'claude',
+            text: 'Hi there',
+            toolCalls: [{ id: 'toolu_1', name: 'lookup', arguments: '{"q":"x"}' }],
+            usage: { inputTokens: 12, outputTokens: 20, totalTokens: 32 },
+            finishReason: 'tool_use',
+        });
+        expect(usages.length).toBe(2);
+    });
+
+    it('rejects on an error event without retrying', async () => {
+        // arrange:
+        let requests = 0;
+        const started = await startServer((_req, res) => {
+            requests++;
+            writeStream(res, anthropicEvent('error', { error: { type: 'overloaded_error', message: 'Overloaded' } }));
+        });
+        server = started.server;
+
+        // act:
+        const error = await streamChatCompletion(started.url, { format: 'anthropic' }).catch(err => err);
+
+        // assert:
+        expect(error).toBeInstanceOf(ChatStreamError);
+        expect(error.message).toBe('Overloaded');
+        expect(error.payload.error.type).toBe('overloaded_error');
+        expect(requests).toBe(1);
+    });
+
+    it('resolves with the partial result when aborted', async () => {
+        // arrange:
+        const started = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': EventStreamContentType });
+            res.write(openAIChunk({ content: 'partial' }));
+        });
+        server = started.server;
+        const ctrl = new AbortController();
+
+        // act:
+        const result = await streamChatCompletion(started.url, {
+            signal: ctrl.signal,
+            ontext: () => ctrl.abort(),
+        });
+
+        // assert:
+        expect(result.text).toBe('partial');
+        expect(result.finishReason).toBeUndefined();
+    });
+});
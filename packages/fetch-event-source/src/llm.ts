@@ -0,0 +1,289 @@
+import { fetchEventSource, FetchEventSourceInit } from "./fetch";
+import { EventHandlers } from "./events";
+
+/**
+ * The wire format of the stream: OpenAI-compatible chat completions
+ * (`data: {...}` chunks ending with `data: [DONE]`) or Anthropic messages
+ * (`message_start`, `content_block_delta`, ... events).
+ */
+export type ChatStreamFormat = "openai" | "anthropic";
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  /** The raw JSON arguments, as assembled from the streamed fragments. */
+  arguments: string;
+}
+
+export interface ChatUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+/** The assembled result of a chat completion stream. */
+export interface ChatCompletionResult {
+  id?: string;
+  model?: string;
+  text: string;
+  toolCalls: ChatToolCall[];
+  usage?: ChatUsage;
+  /** `finish_reason` / `stop_reason`; undefined if the stream ended early or was aborted. */
+  finishReason?: string;
+}
+
+export interface ChatCompletionStreamInit
+  extends Omit<
+    FetchEventSourceInit,
+    "onmessage" | "handlers" | "onclose" | "format"
+  > {
+  /** Defaults to "openai". */
+  format?: ChatStreamFormat;
+  /** Called for each piece of text, with the text assembled so far. */
+  ontext?: (delta: string, text: string) => void;
+  /** Called when a tool call's arguments are complete. */
+  ontoolcall?: (toolCall: ChatToolCall) => void;
+  /** Called whenever the stream reports token usage. */
+  onusage?: (usage: ChatUsage) => void;
+  /** Called once with the finished message, before the promise resolves. */
+  onfinish?: (result: ChatCompletionResult) => void;
+}
+
+/**
+ * Thrown when the stream reports an error (an `error` event, or an `error`
+ * object in a chunk). The parsed payload is available as `payload`.
+ */
+export class ChatStreamError extends Error {
+  constructor(message: string, public readonly payload: any) {
+    super(message);
+    this.name = "ChatStreamError";
+  }
+}
+
+/**
+ * Streams a chat completion and resolves with the assembled result once the
+ * stream finishes (`[DONE]`, `message_stop` or the server closing it). Only
+ * the first choice of OpenAI-compatible streams is assembled.
+ *
+ * Unlike `fetchEventSource`, errors are not retried unless you pass an
+ * `onerror` that returns instead of throwing, since retrying a completion
+ * request usually starts a new completion. Aborting the signal resolves with
+ * what was assembled so far.
+ */
+export function streamChatCompletion(
+  input: RequestInfo,
+  {
+    format = "openai",
+    ontext,
+    ontoolcall,
+    onusage,
+    onfinish,
+    signal,
+    onerror,
+    ondecodeerror,
+    ...init
+  }: ChatCompletionStreamInit
+): Promise<ChatCompletionResult> {
+  const result: ChatCompletionResult = { text: "", toolCalls: [] };
+  const ctrl = new AbortController();
+  let finished = false;
+
+  function appendText(delta: string) {
+    if (delta) {
+      result.text += delta;
+      ontext?.(delta, result.text);
+    }
+  }
+
+  function setUsage(usage: ChatUsage) {
+    result.usage = { ...result.usage, ...usage };
+    onusage?.(result.usage);
+  }
+
+  function finish() {
+    if (!finished) {
+      finished = true;
+      onfinish?.(result);
+    }
+    ctrl.abort(); // stop reading, the server may keep the connection open
+  }
+
+  const handlers =
+    format === "anthropic"
+      ? anthropicHandlers(result, appendText, setUsage, ontoolcall, finish)
+      : openAIHandlers(result, appendText, setUsage, ontoolcall, finish);
+
+  const onAbort = () => ctrl.abort();
+  if (signal?.aborted) {
+    ctrl.abort();
+  } else {
+    signal?.addEventListener("abort", onAbort);
+  }
+
+  return fetchEventSource(input, {
+    ...init,
+    signal: ctrl.signal,
+    handlers,
+    onclose: finish,
+    onerror:
+      onerror ??
+      ((err) => {
+        throw err;
+      }),
+    ondecodeerror:
+      ondecodeerror ??
+      ((err) => {
+        throw err;
+      }),
+  })
+    .then(() => result)
+    .finally(() => signal?.removeEventListener("abort", onAbort));
+}
+
+function openAIHandlers(
+  result: ChatCompletionResult,
+  appendText: (delta: string) => void,
+  setUsage: (usage: ChatUsage) => void,
+  ontoolcall: ((toolCall: ChatToolCall) => void) | undefined,
+  finish: () => void
+): EventHandlers<Record<string, any>> {
+  // tool calls are streamed in fragments keyed by their index:
+  const toolCalls = new Map<number, ChatToolCall>();
+
+  function completeToolCalls() {
+    for (const toolCall of toolCalls.values()) {
+      result.toolCalls.push(toolCall);
+      ontoolcall?.(toolCall);
+    }
+    toolCalls.clear();
+  }
+
+  return {
+    message: {
+      decode: (data) => (data.trim() === "[DONE]" ? null : JSON.parse(data)),
+      handle(chunk: any) {
+        if (chunk === null) {
+          completeToolCalls();
+          finish();
+          return;
+        }
+        if (chunk.error) {
+          throw new ChatStreamError(
+            chunk.error.message ?? "Chat completion stream failed",
+            chunk
+          );
+        }
+
+        result.id = result.id ?? chunk.id;
+        result.model = result.model ?? chunk.model;
+        if (chunk.usage) {
+          setUsage({
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          });
+        }
+
+        const choice = chunk.choices?.find((c: any) => (c.index ?? 0) === 0);
+        if (!choice) {
+          return;
+        }
+        const delta = choice.delta ?? {};
+        if (typeof delta.content === "string") {
+          appendText(delta.content);
+        }
+        for (const fragment of delta.tool_calls ?? []) {
+          const index = fragment.index ?? 0;
+          let toolCall = toolCalls.get(index);
+          if (!toolCall) {
+            toolCall = { id: "", name: "", arguments: "" };
+            toolCalls.set(index, toolCall);
+          }
+          toolCall.id = fragment.id ?? toolCall.id;
+          toolCall.name += fragment.function?.name ?? "";
+          toolCall.arguments += fragment.function?.arguments ?? "";
+        }
+        if (choice.finish_reason) {
+          result.finishReason = choice.finish_reason;
+          completeToolCalls();
+        }
+      },
+    },
+  };
+}
+
+function anthropicHandlers(
+  result: ChatCompletionResult,
+  appendText: (delta: string) => void,
+  setUsage: (usage: ChatUsage) => void,
+  ontoolcall: ((toolCall: ChatToolCall) => void) | undefined,
+  finish: () => void
+): EventHandlers<Record<string, any>> {
+  // tool_use content blocks by index:
+  const toolCalls = new Map<number, ChatToolCall>();
+
+  function usage(usage: any): ChatUsage {
+    const inputTokens = usage.input_tokens ?? result.usage?.inputTokens;
+    const outputTokens = usage.output_tokens ?? result.usage?.outputTokens;
+    return {
+      inputTokens,
+      outputTokens,
+      totalTokens:
+        inputTokens !== undefined && outputTokens !== undefined
+          ? inputTokens + outputTokens
+          : undefined,
+    };
+  }
+
+  return {
+    message_start({ message }: any) {
+      result.id = message?.id;
+      result.model = message?.model;
+      if (message?.usage) {
+        setUsage(usage(message.usage));
+      }
+    },
+    content_block_start({ index, content_block: block }: any) {
+      if (block?.type === "tool_use") {
+        toolCalls.set(index, { id: block.id, name: block.name, arguments: "" });
+      } else if (block?.type === "text") {
+        appendText(block.text ?? "");
+      }
+    },
+    content_block_delta({ index, delta }: any) {
+      if (delta?.type === "text_delta") {
+        appendText(delta.text);
+      } else if (delta?.type === "input_json_delta") {
+        const toolCall = toolCalls.get(index);
+        if (toolCall) {
+          toolCall.arguments += delta.partial_json;
+        }
+      }
+    },
+    content_block_stop({ index }: any) {
+      const toolCall = toolCalls.get(index);
+      if (toolCall) {
+        result.toolCalls.push(toolCall);
+        ontoolcall?.(toolCall);
+        toolCalls.delete(index);
+      }
+    },
+    message_delta({ delta, usage: deltaUsage }: any) {
+      if (delta?.stop_reason) {
+        result.finishReason = delta.stop_reason;
+      }
+      if (deltaUsage) {
+        setUsage(usage(deltaUsage));
+      }
+    },
+    message_stop() {
+      finish();
+    },
+    error(payload: any) {
+      throw new ChatStreamError(
+        payload?.error?.message ?? "Chat completion stream failed",
+        payload
+      );
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { fetchEventSource, IdleTimeoutError } from './fetch';
+import { StreamStats } from './metrics';
+import { MockEventServer } from './mock-server';
+
+describe('stream metrics', () => {
+    let server: MockEventServer | undefined;
+
+    afterEach(async () => {
+        await server?.close();
+        server = undefined;
+    });
+
+    it('reports the connection lifecycle to the observer', async () => {
+        // arrange:
+        server = new MockEventServer([
+            { status: 503 },
+            { steps: [{ id: '1', data: 'one' }, { delay: 20 }], end: 'disconnect' },
+            { steps: [{ id: '2', data: 'two' }, { data: 'three' }] },
+        ]);
+        const url = await server.listen();
+        const events: string[] = [];
+        let final: StreamStats | undefined;
+
+        // act:
+        await fetchEventSource(url, {
+            onerror: () => 10,
+            observer: {
+                onconnect: e => events.push(`connect ${e.attempt}`),
+                onopen: e => events.push(`open ${e.attempt} ${e.timeToFirstByte >= 0}`),
+                ondisconnect: e => events.push(`disconnect ${e.messagesReceived} ${e.duration >= 0}`),
+                onreconnect: e => events.push(`reconnect ${e.attempt} ${e.reason} ${e.interval}`),
+                onend: (stats, err) => {
+                    events.push(`end ${err}`);
+                    final = stats;
+                },
+            },
+        });
+
+        // assert:
+        expect(events).toEqual([
+            'connect 0',
+            'reconnect 1 response 10',
+            'connect 1',
+            'open 1 true',
+            'disconnect 1 true',
+            'reconnect 1 error 10',
+            'connect 1',
+            'open 1 true',
+            'disconnect 2 true',
+            'end undefined',
+        ]);
+        expect(final).toEqual(jasmine.objectContaining({
+            state: 'closed',
+            connects: 3,
+            reconnects: 2,
+            reconnectReasons: { response: 1, 'idle-timeout': 0, close: 0, error: 1 },
+            messagesReceived: 3,
+            lastRetryInterval: 10,
+            totalRetryDelay: 20,
+        }));
+        expect(final!.bytesReceived).toBe('id: 1\ndata: one\n\nid: 2\ndata: two\n\ndata: three\n\n'.length);
+        expect(final!.uptime).toBeGreaterThanOrEqual(15);
+    });
+
+    it('returns a snapshot from stats() while the stream is open', async () => {
+        // arrange:
+        server = new MockEventServer([{ steps: [{ data: 'hello' }], end: 'hang' }]);
+        const url = await server.listen();
+        const ctrl = new AbortController();
+        let received!: () => void;
+        const receivedPromise = new Promise<void>(resolve => received = resolve);
+
+        // act:
+        const stream = fetchEventSource(url, {
+            signal: ctrl.signal,
+            onmessage: () => received(),
+        });
+        const initial = stream.stats();
+        await receivedPromise;
+        const open = stream.stats();
+        ctrl.abort();
+        await stream;
+
+        // assert:
+        expect(initial.state).toBe('connecting');
+        expect(open.state).toBe('open');
+        expect(open.messagesReceived).toBe(1);
+        expect(open.timeToFirstByte).toBeGreaterThanOrEqual(0);
+        expect(stream.stats().state).toBe('closed');
+    });
+
+    it('counts idle timeouts and reports the error the stream rejects with', async () => {
+        // arrange:
+        server = new MockEventServer(() => ({ steps: [], end: 'hang' }));
+        const url = await server.listen();
+        let endError: any;
+        let errors = 0;
+
+        // act:
+        const stream = fetchEventSource(url, {
+            idleTimeout: 20,
+            onerror: err => {
+                if (++errors > 1) {
+                    throw err;
+                }
+                return 10;
+            },
+            observer: { onend: (_stats, err) => endError = err },
+        });
+        await expectAsync(stream).toBeRejectedWithError(IdleTimeoutError);
+
+        // assert:
+        expect(endError).toBeInstanceOf(IdleTimeoutError);
+        expect(stream.stats().reconnectReasons['idle-timeout']).toBe(1);
+        expect(stream.stats().connects).toBe(2);
+    });
+});
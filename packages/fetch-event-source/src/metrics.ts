@@ -0,0 +1,174 @@
+/**
+ * Why a connection is retried: a non-2xx response or wrong content-type, no
+ * bytes within `idleTimeout`, the server closing the stream with
+ * `reconnectOnClose` set, or any other error (network failures, errors thrown
+ * by callbacks).
+ */
+export type ReconnectReason = "response" | "idle-timeout" | "close" | "error";
+
+/** A snapshot of a stream's health, from `stats()` or `onend`. */
+export interface StreamStats {
+  /**
+   * "connecting" while a request is in flight, "open" while reading, "waiting"
+   * between connections and "closed" once the stream has ended.
+   */
+  state: "connecting" | "open" | "waiting" | "closed";
+  /** When the stream started, in milliseconds since the epoch. */
+  startedAt: number;
+  /** Connection attempts, including the first. */
+  connects: number;
+  /** Retried connections. */
+  reconnects: number;
+  /** Retried connections by reason. */
+  reconnectReasons: Record<ReconnectReason, number>;
+  /** The error that caused the last reconnect. */
+  lastError?: any;
+  /** Milliseconds from sending the last request to receiving its response. */
+  timeToFirstByte?: number;
+  bytesReceived: number;
+  /** Messages delivered to `onmessage`, not counting dropped duplicates. */
+  messagesReceived: number;
+  /** Total milliseconds the stream was open, including the current connection. */
+  uptime: number;
+  /** The interval waited before the last reconnect. */
+  lastRetryInterval?: number;
+  /** Total milliseconds spent waiting to reconnect. */
+  totalRetryDelay: number;
+}
+
+export interface StreamConnectEvent {
+  /** Consecutive failed attempts before this one. */
+  attempt: number;
+  input: RequestInfo;
+}
+
+export interface StreamOpenEvent {
+  attempt: number;
+  timeToFirstByte: number;
+}
+
+export interface StreamDisconnectEvent {
+  /** Milliseconds this connection was open. */
+  duration: number;
+  bytesReceived: number;
+  messagesReceived: number;
+}
+
+export interface StreamReconnectEvent {
+  /** Consecutive failed attempts, including this one. */
+  attempt: number;
+  reason: ReconnectReason;
+  error: any;
+  /** Milliseconds until the next connection attempt. */
+  interval: number;
+}
+
+/**
+ * Receives lifecycle events of a `fetchEventSource` stream, e.g. to feed
+ * dashboards. All methods are optional and called synchronously, so they
+ * should be cheap and must not throw.
+ */
+export interface StreamObserver {
+  /** A request is about to be sent. */
+  onconnect?: (event: StreamConnectEvent) => void;
+  /** The response passed `onopen`. */
+  onopen?: (event: StreamOpenEvent) => void;
+  /** An open connection stopped, for whatever reason. */
+  ondisconnect?: (event: StreamDisconnectEvent) => void;
+  /** A failed connection will be retried. */
+  onreconnect?: (event: StreamReconnectEvent) => void;
+  /** The stream resolved or rejected (with `error`). */
+  onend?: (stats: StreamStats, error?: any) => void;
+}
+
+/**
+ * Tracks a stream's lifecycle and reports it to an observer.
+ */
+export class StreamMetrics {
+  private readonly stats: StreamStats = {
+    state: "connecting",
+    startedAt: Date.now(),
+    connects: 0,
+    reconnects: 0,
+    reconnectReasons: { response: 0, "idle-timeout": 0, close: 0, error: 0 },
+    bytesReceived: 0,
+    messagesReceived: 0,
+    uptime: 0,
+    totalRetryDelay: 0,
+  };
+  private connectedAt = 0;
+  private openedAt: number | undefined;
+  private connection = { bytesReceived: 0, messagesReceived: 0 };
+
+  constructor(private readonly observer: StreamObserver = {}) {}
+
+  connect(attempt: number, input: RequestInfo) {
+    this.stats.state = "connecting";
+    this.stats.connects++;
+    this.connectedAt = Date.now();
+    this.observer.onconnect?.({ attempt, input });
+  }
+
+  open(attempt: number, responseAt: number) {
+    const timeToFirstByte = responseAt - this.connectedAt;
+    this.stats.state = "open";
+    this.stats.timeToFirstByte = timeToFirstByte;
+    this.openedAt = Date.now();
+    this.connection = { bytesReceived: 0, messagesReceived: 0 };
+    this.observer.onopen?.({ attempt, timeToFirstByte });
+  }
+
+  bytes(count: number) {
+    this.stats.bytesReceived += count;
+    this.connection.bytesReceived += count;
+  }
+
+  message() {
+    this.stats.messagesReceived++;
+    this.connection.messagesReceived++;
+  }
+
+  disconnect() {
+    if (this.openedAt === undefined) {
+      return;
+    }
+    const duration = Date.now() - this.openedAt;
+    this.openedAt = undefined;
+    this.stats.uptime += duration;
+    this.stats.state = "waiting";
+    this.observer.ondisconnect?.({ duration, ...this.connection });
+  }
+
+  reconnect(
+    attempt: number,
+    reason: ReconnectReason,
+    error: any,
+    interval: number
+  ) {
+    this.disconnect();
+    this.stats.state = "waiting";
+    this.stats.reconnects++;
+    this.stats.reconnectReasons[reason]++;
+    this.stats.lastError = error;
+    this.stats.lastRetryInterval = interval;
+    this.stats.totalRetryDelay += interval;
+    this.observer.onreconnect?.({ attempt, reason, error, interval });
+  }
+
+  end(error?: any) {
+    this.disconnect();
+    this.stats.state = "closed";
+    this.observer.onend?.(this.snapshot(), error);
+  }
+
+  snapshot(): StreamStats {
+    const stats = {
+      ...this.stats,
+      reconnectReasons: { ...this.stats.reconnectReasons },
+    };
+    if (this.openedAt !== undefined) {
+      stats.uptime += Date.now() - this.openedAt;
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,109 @@
+import { fetchEventSource } from './fetch';
+import { MockEventServer } from './mock-server';
+import { EventSourceMessage } from './parse';
+import { ResponseError, RetryError } from './retry';
+
+describe('MockEventServer', () => {
+    let server: MockEventServer | undefined;
+
+    afterEach(async () => {
+        await server?.close();
+        server = undefined;
+    });
+
+    it('replays a script and resumes with the last event id', async () => {
+        // arrange:
+        server = new MockEventServer([
+            { steps: [{ retry: 10 }, { id: '1', data: 'one' }, { delay: 20 }, { id: '2', data: 'two' }], end: 'disconnect' },
+            { status: 503, steps: [] },
+            { steps: [{ comment: 'keep-alive' }, { id: '3', data: 'three\nlines' }] },
+        ]);
+        const url = await server.listen();
+        const messages: EventSourceMessage[] = [];
+        const comments: string[] = [];
+
+        // act:
+        await fetchEventSource(url, {
+            onmessage: msg => messages.push(msg),
+            oncomment: comment => comments.push(comment),
+        });
+
+        // assert:
+        expect(messages.map(m => m.data)).toEqual(['one', 'two', 'three\nlines']);
+        expect(comments).toEqual(['keep-alive']);
+        expect(server.requests.map(r => r.lastEventId)).toEqual([undefined, '2', '2']);
+    });
+
+    it('lets a function pick the response for each request', async () => {
+        // arrange:
+        server = new MockEventServer((request, attempt) =>
+            attempt === 1
+                ? { steps: [{ id: 'a', data: request.body }], end: 'disconnect' }
+                : { steps: [{ data: `resumed after ${request.lastEventId}` }] });
+        const url = await server.listen();
+        const data: string[] = [];
+
+        // act:
+        await fetchEventSource(url, {
+            method: 'POST',
+            body: 'hello',
+            onmessage: msg => data.push(msg.data),
+            onerror: () => 10,
+        });
+
+        // assert:
+        expect(data).toEqual(['hello', 'resumed after a']);
+        expect(server.requests.map(r => r.method)).toEqual(['POST', 'POST']);
+    });
+
+    it('answers requests beyond the script with a 204', async () => {
+        // arrange:
+        server = new MockEventServer([]);
+        const url = await server.listen();
+
+        // act:
+        const result = fetchEventSource(url, { retry: { maxAttempts: 3 } });
+
+        // assert:
+        await expectAsync(result).toBeRejectedWithError(RetryError);
+        expect(server.requests.length).toBe(1);
+    });
+
+    it('stops a client without a retry policy with a 204', async () => {
+        // arrange:
+        server = new MockEventServer([
+            { steps: [{ retry: 10 }, { id: '1', data: 'one' }], end: 'disconnect' },
+        ]);
+        const url = await server.listen();
+        const data: string[] = [];
+
+        // act:
+        const result = fetchEventSource(url, { onmessage: msg => data.push(msg.data) });
+
+        // assert:
+        await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ status: 204 }));
+        await expectAsync(result).toBeRejectedWith(jasmine.any(ResponseError));
+        expect(data).toEqual(['one']);
+        expect(server.requests.length).toBe(2);
+    });
+
+    it('drops hanging connections on close', async () => {
+        // arrange:
+        server = new MockEventServer([{ steps: [{ data: 'hi' }], end: 'hang' }]);
+        const url = await server.listen();
+        let received!: () => void;
+        const receivedPromise = new Promise<void>(resolve => received = resolve);
+        const stream = fetchEventSource(url, {
+            onmessage: () => received(),
+            onerror: err => { throw err; },
+        });
+        await receivedPromise;
+
+        // act:
+        await server.close();
+        server = undefined;
+
+        // assert:
+        await expectAsync(stream).toBeRejected();
+    });
+});
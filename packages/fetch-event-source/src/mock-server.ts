@@ -0,0 +1,180 @@
+import * as http from "http";
+import { AddressInfo, Socket } from "net";
+import { encodeComment, encodeMessage } from "./encode";
+import { EventStreamContentType } from "./fetch";
+import { EventSourceMessage } from "./parse";
+
+/** A request received by `MockEventServer`. */
+export interface MockRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  /** The `Last-Event-ID` header, if any. */
+  lastEventId?: string;
+  body: string;
+}
+
+/**
+ * One step of a scripted connection: a message to send, a comment, raw text
+ * written as is (e.g. malformed framing), or a pause in milliseconds.
+ */
+export type MockStep =
+  | Partial<EventSourceMessage>
+  | { comment: string }
+  | { raw: string }
+  | { delay: number };
+
+/** How the server answers one connection. */
+export interface MockConnection {
+  /** Defaults to 200. */
+  status?: number;
+  /** Merged into the default `content-type: text/event-stream` headers. */
+  headers?: Record<string, string>;
+  /** Sent in order. A non-2xx response usually has none. */
+  steps?: MockStep[];
+  /**
+   * What happens after the last step: "close" ends the response (the
+   * default), "disconnect" destroys the socket without ending the response,
+   * like a dropped connection, and "hang" keeps it open until the client or
+   * `close()` ends it.
+   */
+  end?: "close" | "disconnect" | "hang";
+}
+
+/**
+ * The connections to serve, in order, or a function that picks one for each
+ * request. `attempt` counts requests from 1. Requests beyond the end of the
+ * list (or for which the function returns nothing) get a 204, which tells
+ * clients to stop reconnecting: `fetchEventSource` rejects with a
+ * `ResponseError` unless `onerror` returns a retry interval.
+ */
+export type MockScript =
+  | MockConnection[]
+  | ((request: MockRequest, attempt: number) => MockConnection | undefined);
+
+/**
+ * A local HTTP server that plays scripted event streams, for testing
+ * reconnection and `Last-Event-ID` handling end to end. Node.js only, import
+ * it from `@cjh0/fetch-event-source/lib/cjs/mock-server` (or
+ * `lib/esm/mock-server`).
+ */
+export class MockEventServer {
+  /** Every request received so far, in order. */
+  readonly requests: MockRequest[] = [];
+
+  private readonly server: http.Server;
+  private readonly sockets = new Set<Socket>();
+  private address: string | undefined;
+
+  constructor(private readonly script: MockScript) {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(() => res.destroy());
+    });
+    this.server.on("connection", (socket) => {
+      this.sockets.add(socket);
+      socket.on("close", () => this.sockets.delete(socket));
+    });
+  }
+
+  /** The server's base url, once it is listening. */
+  get url() {
+    if (!this.address) {
+      throw new Error("The mock server is not listening");
+    }
+    return this.address;
+  }
+
+  /**
+   * Starts listening on a random local port unless `port` is given.
+   * @returns The server's base url.
+   */
+  listen(port = 0, host = "127.0.0.1") {
+    return new Promise<string>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        const { port } = this.server.address() as AddressInfo;
+        resolve((this.address = `http://${host}:${port}/`));
+      });
+    });
+  }
+
+  /** Stops the server, dropping open connections. */
+  close() {
+    return new Promise<void>((resolve, reject) => {
+      this.server.close((err) => (err ? reject(err) : resolve()));
+      for (const socket of this.sockets) {
+        socket.destroy();
+      }
+      this.address = undefined;
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    let body = "";
+    req.setEncoding("utf8");
+    for await (const chunk of req) {
+      body += chunk;
+    }
+
+    const request: MockRequest = {
+      method: req.method ?? "GET",
+      url: req.url ?? "/",
+      headers: req.headers,
+      lastEventId: req.headers["last-event-id"] as string | undefined,
+      body,
+    };
+    this.requests.push(request);
+    const attempt = this.requests.length;
+    const connection =
+      typeof this.script === "function"
+        ? this.script(request, attempt)
+        : this.script[attempt - 1];
+
+    if (!connection) {
+      res.writeHead(204).end();
+      return;
+    }
+
+    let closed = false;
+    res.on("close", () => (closed = true));
+    // resolves once the text is flushed, so a disconnect doesn't drop it:
+    const write = (text: string) =>
+      new Promise<void>((resolve) => res.write(text, () => resolve()));
+    res.writeHead(connection.status ?? 200, {
+      "content-type": EventStreamContentType,
+      "cache-control": "no-cache",
+      ...connection.headers,
+    });
+    res.flushHeaders();
+
+    for (const step of connection.steps ?? []) {
+      if (closed) {
+        return;
+      }
+      if ("delay" in step) {
+        await new Promise((resolve) => setTimeout(resolve, step.delay));
+      } else if ("comment" in step) {
+        await write(encodeComment(step.comment));
+      } else if ("raw" in step) {
+        await write(step.raw);
+      } else {
+        await write(encodeMessage(step));
+      }
+    }
+
+    if (closed) {
+      return;
+    }
+    switch (connection.end ?? "close") {
+      case "close":
+        res.end();
+        break;
+      case "disconnect":
+        res.destroy();
+        break;
+      case "hang":
+        break;
+    }
+  }
+}
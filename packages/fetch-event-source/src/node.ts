@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as path from "path";
+import { LastEventIdStorage } from "./storage";
+
+/**
+ * Keeps last event ids in a JSON file, so a stream can resume after the
+ * process restarts. Node.js only, import it from
+ * `@cjh0/fetch-event-source/lib/cjs/node` (or `lib/esm/node`).
+ *
+ * Changes are batched and written in the background, so a busy stream doesn't
+ * block the event loop on every message. `fetchEventSource` calls `flush()`
+ * when the stream ends, and pending changes are written when the process
+ * exits.
+ */
+export class FileLastEventIdStorage implements LastEventIdStorage {
+  private ids: Record<string, string> | undefined;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private writing: Promise<void> = Promise.resolve();
+  private readonly onExit = () => this.flushSync();
+
+  /**
+   * @param writeDelay How long to batch changes before writing them, in
+   * milliseconds. Defaults to 1000.
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly writeDelay = 1000
+  ) {}
+
+  get(key: string) {
+    return this.read()[key];
+  }
+
+  set(key: string, id: string) {
+    const ids = this.read();
+    if (ids[key] !== id) {
+      ids[key] = id;
+      this.schedule();
+    }
+  }
+
+  delete(key: string) {
+    const ids = this.read();
+    if (key in ids) {
+      delete ids[key];
+      this.schedule();
+    }
+  }
+
+  /** Writes pending changes now, and waits for writes already in progress. */
+  flush(): Promise<void> {
+    if (this.timer !== undefined) {
+      this.cancel();
+      const data = JSON.stringify(this.read());
+      // writes run one at a time; a failed write doesn't stop later ones:
+      this.writing = this.writing
+        .catch(() => {})
+        .then(() => this.write(data));
+    }
+    return this.writing;
+  }
+
+  private schedule() {
+    if (this.timer === undefined) {
+      this.timer = setTimeout(() => {
+        this.flush().catch(() => {}); // the next flush() reports write errors
+      }, this.writeDelay);
+      // don't keep the process alive just to save an id:
+      (this.timer as { unref?: () => void }).unref?.();
+      process.once("exit", this.onExit);
+    }
+  }
+
+  private cancel() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    process.removeListener("exit", this.onExit);
+  }
+
+  private flushSync() {
+    this.timer = undefined;
+    const tmp = this.tempPath();
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tmp, JSON.stringify(this.read()));
+    fs.renameSync(tmp, this.filePath);
+  }
+
+  private read() {
+    if (!this.ids) {
+      try {
+        this.ids = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+      } catch (err: any) {
+        if (err.code !== "ENOENT") {
+          throw err;
+        }
+      }
+      this.ids = this.ids ?? {};
+    }
+    return this.ids;
+  }
+
+  private async write(data: string) {
+    // write to a temporary file first so a crash can't leave a truncated file:
+    const tmp = this.tempPath();
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tmp, data);
+    await fs.promises.rename(tmp, this.filePath);
+  }
+
+  private tempPath() {
+    return `${this.filePath}.${process.pid}.tmp`;
+  }
+}
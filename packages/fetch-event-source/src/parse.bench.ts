@@ -0,0 +1,102 @@
+// Micro-benchmark for getLines. Run with `npm run bench`.
+import { getLines, getMessages } from './parse';
+
+/** getLines as released in 2.0.x: concatenates every chunk onto the incomplete line. */
+function getLinesPrevious(onLine: (line: Uint8Array, fieldLength: number) => void) {
+    let buffer: Uint8Array | undefined;
+    let position: number; // current read position
+    let fieldLength: number; // length of the `field` portion of the line
+    let discardTrailingNewline = false;
+
+    return function onChunk(arr: Uint8Array) {
+        if (buffer === undefined) {
+            buffer = arr;
+            position = 0;
+            fieldLength = -1;
+        } else {
+            const res = new Uint8Array(buffer.length + arr.length);
+            res.set(buffer);
+            res.set(arr, buffer.length);
+            buffer = res;
+        }
+
+        const bufLength = buffer.length;
+        let lineStart = 0;
+        while (position < bufLength) {
+            if (discardTrailingNewline) {
+                if (buffer[position] === 10) {
+                    lineStart = ++position;
+                }
+                discardTrailingNewline = false;
+            }
+
+            let lineEnd = -1;
+            for (; position < bufLength && lineEnd === -1; ++position) {
+                switch (buffer[position]) {
+                    case 58:
+                        if (fieldLength === -1) {
+                            fieldLength = position - lineStart;
+                        }
+                        break;
+                    // @ts-ignore:7029 \r case below should fallthrough to \n:
+                    case 13:
+                        discardTrailingNewline = true;
+                    case 10:
+                        lineEnd = position;
+                        break;
+                }
+            }
+
+            if (lineEnd === -1) {
+                break;
+            }
+
+            onLine(buffer.subarray(lineStart, lineEnd), fieldLength);
+            lineStart = position;
+            fieldLength = -1;
+        }
+
+        if (lineStart === bufLength) {
+            buffer = undefined;
+        } else if (lineStart !== 0) {
+            buffer = buffer.subarray(lineStart);
+            position -= lineStart;
+        }
+    };
+}
+
+function chunked(text: string, chunkSize: number) {
+    const bytes = new TextEncoder().encode(text);
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        chunks.push(bytes.slice(i, i + chunkSize));
+    }
+    return chunks;
+}
+
+function measure(name: string, chunks: Uint8Array[], create: () => (arr: Uint8Array) => void) {
+    const runs = 5;
+    let best = Infinity;
+    for (let run = 0; run < runs; run++) {
+        const onChunk = create();
+        const start = process.hrtime.bigint();
+        for (const chunk of chunks) {
+            onChunk(chunk);
+        }
+        best = Math.min(best, Number(process.hrtime.bigint() - start) / 1e6);
+    }
+    console.log(`${name.padEnd(48)} ${best.toFixed(1).padStart(9)} ms`);
+}
+
+const noop = () => {};
+const bigLine = chunked(`data: ${JSON.stringify({ tool: 'x'.repeat(2 * 1024 * 1024) })}\n\n`, 1024);
+const manyLines = chunked('id: 1\ndata: {"delta":"token"}\n\n'.repeat(100000), 4096);
+
+console.log(`2 MiB data line in 1 KiB chunks (${bigLine.length} chunks)`);
+measure('  getLines (2.0.x)', bigLine, () => getLinesPrevious(noop));
+measure('  getLines (chunk list)', bigLine, () => getLines(noop));
+
+console.log(`100k small messages in 4 KiB chunks (${manyLines.length} chunks)`);
+measure('  getLines (2.0.x)', manyLines, () => getLinesPrevious(noop));
+measure('  getLines (chunk list)', manyLines, () => getLines(noop));
+measure('  getLines + getMessages', manyLines, () => getLines(getMessages(noop, noop, noop)));
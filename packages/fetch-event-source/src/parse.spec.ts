@@ -184,6 +184,65 @@ describe('parse', () => {
             // assert:
             expect(lineNum).toBe(2);
         });
+
+        it('same lines regardless of how the stream is split', () => {
+            // arrange:
+            const stream = encoder.encode('id: 1\r\ndata: a:b\r\rdata\n: comment\r\n\nevent: x\ndata: 日本\r\n\n');
+            const split = (size: number) => {
+                const lines: Array<[string, number]> = [];
+                const next = parse.getLines((line, fieldLength) => lines.push([decoder.decode(line), fieldLength]));
+                for (let i = 0; i < stream.length; i += size) {
+                    next(stream.subarray(i, i + size));
+                }
+                return lines;
+            };
+            const expected = split(stream.length);
+
+            // act & assert:
+            expect(expected.length).toBe(9);
+            for (let size = 1; size < stream.length; size++) {
+                expect(split(size)).withContext(`chunk size ${size}`).toEqual(expected);
+            }
+        });
+
+        it('line split into many arrays', () => {
+            // arrange:
+            const value = 'x'.repeat(100000);
+            const lines: Array<[number, number]> = [];
+            const next = parse.getLines((line, fieldLength) => lines.push([line.length, fieldLength]));
+            const bytes = encoder.encode(`data: ${value}\n`);
+
+            // act:
+            for (let i = 0; i < bytes.length; i += 7) {
+                next(bytes.subarray(i, i + 7));
+            }
+
+            // assert:
+            expect(lines).toEqual([[value.length + 6, 4]]);
+        });
+
+        it('throws when a line exceeds maxLineLength', () => {
+            // arrange:
+            const lines: string[] = [];
+            const next = parse.getLines(line => lines.push(decoder.decode(line)), { maxLineLength: 10 });
+
+            // act:
+            next(encoder.encode('data: 1234\n'));
+            next(encoder.encode('data: '));
+
+            // assert:
+            expect(() => next(encoder.encode('12345'))).toThrowMatching(
+                (err: any) => err instanceof parse.MaxSizeExceededError && err.kind === 'line' && err.limit === 10);
+            expect(lines).toEqual(['data: 1234']);
+        });
+
+        it('throws when a complete line in one array exceeds maxLineLength', () => {
+            // arrange:
+            const next = parse.getLines(() => {}, { maxLineLength: 10 });
+
+            // act & assert:
+            expect(() => next(encoder.encode('data: 12345\n'))).toThrowError(parse.MaxSizeExceededError);
+        });
     });
 
     describe('getMessages', () => {
@@ -215,7 +274,7 @@ describe('parse', () => {
             expect(msgNum).toBe(1);
         });
 
-        it('skip unknown fields', () => {
+        it('skip unknown fields (lenient)', () => {
             let msgNum = 0;
             const next = parse.getMessages(id => {
                 expect(id).toEqual('abc');
@@ -229,7 +288,7 @@ describe('parse', () => {
                     event: '',
                     retry: undefined,
                 });
-            });
+            }, { strict: false });
 
             // act:
             next(encoder.encode('id: abc'), 2);
@@ -240,7 +299,7 @@ describe('parse', () => {
             expect(msgNum).toBe(1);
         });
         
-        it('ignore non-integer retry', () => {
+        it('ignore non-integer retry (lenient)', () => {
             let msgNum = 0;
             const next = parse.getMessages(_id => {
                 fail('id should not be called');
@@ -254,7 +313,7 @@ describe('parse', () => {
                     event: '',
                     retry: undefined,
                 });
-            });
+            }, { strict: false });
 
             // act:
             next(encoder.encode('retry: def'), 5);
@@ -264,7 +323,7 @@ describe('parse', () => {
             expect(msgNum).toBe(1);
         });
 
-        it('skip comment-only messages', () => {
+        it('skip comment-only messages (lenient)', () => {
             // arrange:
             let msgNum = 0;
             const next = parse.getMessages(id => {
@@ -279,7 +338,7 @@ describe('parse', () => {
                     event: 'foo ',
                     data: '',
                 });
-            });
+            }, { strict: false });
 
             // act:
             next(encoder.encode('id:123'), 2);
@@ -320,7 +379,7 @@ describe('parse', () => {
             expect(msgNum).toBe(1);
         });
 
-        it('should reset id if sent multiple times', () => {
+        it('should reset id if sent multiple times (lenient)', () => {
             // arrange:
             const expectedIds = ['foo', ''];
             let idsIdx = 0;
@@ -338,7 +397,7 @@ describe('parse', () => {
                     event: '',
                     retry: undefined,
                 });
-            });
+            }, { strict: false });
 
             // act:
             next(encoder.encode('id: foo'), 2);
@@ -350,4 +409,293 @@ describe('parse', () => {
             expect(msgNum).toBe(1);
         });
     });
+
+    describe('getJsonLines', () => {
+        it('delivers each non-blank line as a message', () => {
+            // arrange:
+            const messages: parse.EventSourceMessage[] = [];
+            const next = parse.getLines(parse.getJsonLines(msg => messages.push(msg)));
+
+            // act:
+            next(encoder.encode('{"a":1}\n\n \t\n'));
+            next(encoder.encode('{"b":"x:y"}\r\n[2]\n'));
+
+            // assert:
+            expect(messages).toEqual([
+                { data: '{"a":1}', event: '', id: '', retry: undefined },
+                { data: '{"b":"x:y"}', event: '', id: '', retry: undefined },
+                { data: '[2]', event: '', id: '', retry: undefined },
+            ]);
+        });
+    });
+
+    describe('getLines byte order mark', () => {
+        it('strips a leading BOM', () => {
+            // arrange:
+            const lines: string[] = [];
+            const next = parse.getLines(line => lines.push(decoder.decode(line)));
+
+            // act:
+            next(new Uint8Array([0xef, 0xbb, 0xbf, ...encoder.encode('data: a\n')]));
+
+            // assert:
+            expect(lines).toEqual(['data: a']);
+        });
+
+        it('strips a BOM split across arrays', () => {
+            // arrange:
+            const lines: Array<[string, number]> = [];
+            const next = parse.getLines((line, fieldLength) => lines.push([decoder.decode(line), fieldLength]));
+
+            // act:
+            next(new Uint8Array([0xef]));
+            next(new Uint8Array([0xbb]));
+            next(new Uint8Array([0xbf, ...encoder.encode('data: a\n')]));
+
+            // assert:
+            expect(lines).toEqual([['data: a', 4]]);
+        });
+
+        it('only strips the BOM at the start of the stream', () => {
+            // arrange:
+            const bomDecoder = new TextDecoder('utf-8', { ignoreBOM: true });
+            const lines: string[] = [];
+            const next = parse.getLines(line => lines.push(bomDecoder.decode(line)));
+
+            // act:
+            next(encoder.encode('data: a\n'));
+            next(new Uint8Array([0xef, 0xbb, 0xbf, ...encoder.encode('data: b\n')]));
+
+            // assert:
+            expect(lines).toEqual(['data: a', '\ufeffdata: b']);
+        });
+
+        it('keeps bytes that only look like the start of a BOM', () => {
+            // arrange:
+            const lines: string[] = [];
+            const next = parse.getLines(line => lines.push(decoder.decode(line)));
+
+            // act:
+            next(new Uint8Array([0xef]));
+            next(new Uint8Array([0xbc, 0x81, ...encoder.encode('\n')]));
+
+            // assert:
+            expect(lines).toEqual(['\uff01']);
+        });
+    });
+
+    // Conformance suite for the event stream interpretation rules, built on the
+    // examples in https://html.spec.whatwg.org/multipage/server-sent-events.html
+    describe('conformance', () => {
+        interface Parsed {
+            messages: Array<{ id: string, event: string, data: string }>;
+            ids: string[];
+            retries: number[];
+        }
+
+        function parseStream(stream: string | Uint8Array, strict = true): Parsed {
+            const parsed: Parsed = { messages: [], ids: [], retries: [] };
+            const next = parse.getLines(parse.getMessages(
+                id => parsed.ids.push(id),
+                retry => parsed.retries.push(retry),
+                ({ id, event, data }) => parsed.messages.push({ id, event, data }),
+                { strict }));
+            next(typeof stream === 'string' ? encoder.encode(stream) : stream);
+            return parsed;
+        }
+
+        function data(parsed: Parsed) {
+            return parsed.messages.map(m => m.data);
+        }
+
+        it('spec example: multi-line data', () => {
+            // act:
+            const parsed = parseStream('data: YHOO\ndata: +2\ndata: 10\n\n');
+
+            // assert:
+            expect(data(parsed)).toEqual(['YHOO\n+2\n10']);
+        });
+
+        it('spec example: comments, ids and leading spaces', () => {
+            // act:
+            const parsed = parseStream(
+                ': test stream\n\n' +
+                'data: first event\nid: 1\n\n' +
+                'data:second event\nid\n\n' +
+                'data:  third event\n\n');
+
+            // assert:
+            expect(parsed.messages).toEqual([
+                { id: '1', event: '', data: 'first event' },
+                { id: '', event: '', data: 'second event' },
+                { id: '', event: '', data: ' third event' },
+            ]);
+        });
+
+        it('spec example: empty data and an unterminated message', () => {
+            // act:
+            const parsed = parseStream('data\n\ndata\ndata\n\ndata:');
+
+            // assert:
+            expect(data(parsed)).toEqual(['', '\n']);
+        });
+
+        it('spec example: one space after the colon is ignored', () => {
+            // act:
+            const parsed = parseStream('data:test\n\ndata: test\n\n');
+
+            // assert:
+            expect(data(parsed)).toEqual(['test', 'test']);
+        });
+
+        it('accepts CRLF, CR and LF line endings', () => {
+            // act:
+            const parsed = parseStream('data: a\r\ndata: b\r\rdata: c\n\r\ndata: d\n\n');
+
+            // assert:
+            expect(data(parsed)).toEqual(['a\nb', 'c', 'd']);
+        });
+
+        it('strips a leading BOM', () => {
+            // act:
+            const parsed = parseStream(new Uint8Array([0xef, 0xbb, 0xbf, ...encoder.encode('data: a\n\n')]));
+
+            // assert:
+            expect(data(parsed)).toEqual(['a']);
+        });
+
+        it('does not dispatch messages without data', () => {
+            // act:
+            const parsed = parseStream('id: 1\n\nevent: foo\n\nretry: 5\n\n:comment\n\ndata: a\n\n');
+
+            // assert:
+            expect(parsed.messages).toEqual([{ id: '1', event: '', data: 'a' }]);
+            expect(parsed.retries).toEqual([5]);
+        });
+
+        it('keeps the last event id across messages', () => {
+            // act:
+            const parsed = parseStream('id: 1\ndata: a\n\ndata: b\n\nid: 2\n\ndata: c\n\n');
+
+            // assert:
+            expect(parsed.messages.map(m => m.id)).toEqual(['1', '1', '2']);
+            expect(parsed.ids).toEqual(['1', '2']);
+        });
+
+        it('ignores ids containing NULL', () => {
+            // act:
+            const parsed = parseStream('id: 1\ndata: a\n\nid: 2\0\ndata: b\n\n');
+
+            // assert:
+            expect(parsed.messages.map(m => m.id)).toEqual(['1', '1']);
+            expect(parsed.ids).toEqual(['1']);
+        });
+
+        it('resets the event type after each message', () => {
+            // act:
+            const parsed = parseStream('event: add\ndata: a\n\ndata: b\n\n');
+
+            // assert:
+            expect(parsed.messages.map(m => m.event)).toEqual(['add', '']);
+        });
+
+        it('only accepts retry values made of ASCII digits', () => {
+            // act:
+            const parsed = parseStream('retry: 10s\nretry: -1\nretry: 1.5\nretry:  7\nretry: 300\nretry\n\n');
+
+            // assert:
+            expect(parsed.retries).toEqual([300]);
+        });
+
+        it('treats a line without a colon as a field with an empty value', () => {
+            // act:
+            const parsed = parseStream('event: foo\nevent\ndata\n\n');
+
+            // assert:
+            expect(parsed.messages).toEqual([{ id: '', event: '', data: '' }]);
+        });
+
+        it('throws when a message exceeds maxMessageSize', () => {
+            // arrange:
+            const next = parse.getLines(parse.getMessages(() => {}, () => {}, undefined, { maxMessageSize: 5 }));
+
+            // act & assert:
+            expect(() => next(encoder.encode('data: abc\ndata: de\n'))).toThrowMatching(
+                (err: any) => err instanceof parse.MaxSizeExceededError && err.kind === 'message');
+        });
+
+        it('reports comments', () => {
+            // arrange:
+            const comments: string[] = [];
+            const next = parse.getLines(parse.getMessages(() => {}, () => {}, undefined, {
+                onComment: comment => comments.push(comment),
+            }));
+
+            // act:
+            next(encoder.encode(':\n: ping\n:  two spaces\n:no space\n\n'));
+
+            // assert:
+            expect(comments).toEqual(['', 'ping', ' two spaces', 'no space']);
+        });
+
+        it('keeps colons in values', () => {
+            // act:
+            const parsed = parseStream('data: a: b:c\n\n');
+
+            // assert:
+            expect(data(parsed)).toEqual(['a: b:c']);
+        });
+
+        it('ignores unknown and differently cased fields', () => {
+            // act:
+            const parsed = parseStream('Data: a\nfoo: b\ndata: c\n\n');
+
+            // assert:
+            expect(data(parsed)).toEqual(['c']);
+        });
+
+        it('decodes UTF-8 split across arrays', () => {
+            // arrange:
+            const parsed: string[] = [];
+            const bytes = encoder.encode('data: 日本\n\n');
+            const next = parse.getLines(parse.getMessages(() => {}, () => {}, msg => parsed.push(msg.data)));
+
+            // act:
+            for (const byte of bytes) {
+                next(new Uint8Array([byte]));
+            }
+
+            // assert:
+            expect(parsed).toEqual(['日本']);
+        });
+
+        describe('lenient mode', () => {
+            it('dispatches messages without data', () => {
+                // act:
+                const parsed = parseStream('id: 1\n\ndata: a\n\n', false);
+
+                // assert:
+                expect(parsed.messages).toEqual([
+                    { id: '1', event: '', data: '' },
+                    { id: '', event: '', data: 'a' },
+                ]);
+            });
+
+            it('ignores lines without a colon', () => {
+                // act:
+                const parsed = parseStream('data: a\ndata\n\n', false);
+
+                // assert:
+                expect(data(parsed)).toEqual(['a']);
+            });
+
+            it('accepts retry values starting with an integer', () => {
+                // act:
+                const parsed = parseStream('retry: 10s\n\n', false);
+
+                // assert:
+                expect(parsed.retries).toEqual([10]);
+            });
+        });
+    });
 });
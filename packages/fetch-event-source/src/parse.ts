@@ -17,19 +17,23 @@ export interface EventSourceMessage {
  * Converts a ReadableStream into a callback pattern.
  * @param stream The input ReadableStream.
  * @param onChunk A function that will be called on each new byte chunk in the stream.
+ * If it returns a promise, the next chunk isn't read until the promise settles.
  * @returns {Promise<void>} A promise that will be resolved when the stream closes.
  */
 export async function getBytes(
   stream: ReadableStream<Uint8Array>,
-  onChunk: (arr: Uint8Array) => void
+  onChunk: (arr: Uint8Array) => void | Promise<void>
 ) {
   const reader = stream.getReader();
   let result: any;
   while (!(result = await reader.read()).done) {
-    onChunk(result.value);
+    await onChunk(result.value);
   }
 }
 
+/** UTF-8 byte order mark, stripped once from the start of the stream. */
+const ByteOrderMark = [0xef, 0xbb, 0xbf];
+
 const enum ControlChars {
   NewLine = 10,
   CarriageReturn = 13,
@@ -37,138 +41,271 @@ const enum ControlChars {
   Colon = 58,
 }
 
+/**
+ * Thrown when a line or message is larger than `maxLineLength` or
+ * `maxMessageSize` allows. The stream is not retried.
+ */
+export class MaxSizeExceededError extends Error {
+  constructor(
+    public readonly kind: "line" | "message",
+    public readonly limit: number
+  ) {
+    super(`Event stream ${kind} exceeds the maximum size of ${limit}`);
+    this.name = "MaxSizeExceededError";
+  }
+}
+
 /**
  * Parses arbitary byte chunks into EventSource line buffers.
  * Each line should be of the format "field: value" and ends with \r, \n, or \r\n.
+ * A leading UTF-8 byte order mark is stripped from the first line.
+ * Incomplete lines are kept as a list of chunks and joined once the line ends,
+ * so a line split into many chunks costs linear time.
  * @param onLine A function that will be called on each new EventSource line.
+ * `fieldLength` is the index of the first colon, or -1 if the line has none.
+ * @param options Parser options; only `maxLineLength` applies here.
  * @returns A function that should be called for each incoming byte chunk.
  */
 export function getLines(
-  onLine: (line: Uint8Array, fieldLength: number) => void
+  onLine: (line: Uint8Array, fieldLength: number) => void,
+  { maxLineLength = Infinity }: ParseOptions = {}
 ) {
-  let buffer: Uint8Array | undefined;
-  let position: number; // current read position
-  let fieldLength: number; // length of the `field` portion of the line
+  let partial: Uint8Array[] = []; // chunks of the current incomplete line
+  let partialLength = 0;
+  let fieldLength = -1; // length of the `field` portion of the line
   let discardTrailingNewline = false;
+  let checkedByteOrderMark = false;
+  let bomPrefix: Uint8Array | undefined; // first bytes, until we know if they're a BOM
+
+  function checkLength(length: number) {
+    if (length > maxLineLength) {
+      throw new MaxSizeExceededError("line", maxLineLength);
+    }
+  }
 
   // return a function that can process each incoming byte chunk:
   return function onChunk(arr: Uint8Array) {
-    if (buffer === undefined) {
-      buffer = arr;
-      position = 0;
-      fieldLength = -1;
-    } else {
-      // we're still parsing the old line. Append the new bytes into buffer:
-      buffer = concat(buffer, arr);
+    if (!checkedByteOrderMark) {
+      arr = bomPrefix ? concat(bomPrefix, arr) : arr;
+      const prefixLength = Math.min(arr.length, ByteOrderMark.length);
+      const isPrefix = ByteOrderMark.slice(0, prefixLength).every(
+        (byte, i) => arr[i] === byte
+      );
+      if (isPrefix && prefixLength < ByteOrderMark.length) {
+        bomPrefix = arr; // wait for more bytes before deciding
+        return;
+      }
+      checkedByteOrderMark = true;
+      bomPrefix = undefined;
+      if (isPrefix) {
+        arr = arr.subarray(ByteOrderMark.length);
+      }
     }
 
-    const bufLength = buffer.length;
+    const length = arr.length;
     let lineStart = 0; // index where the current line starts
-    while (position < bufLength) {
+    let position = 0; // current read position
+    while (position < length) {
       if (discardTrailingNewline) {
-        if (buffer[position] === ControlChars.NewLine) {
-          lineStart = ++position; // skip to next char
-        }
-
         discardTrailingNewline = false;
+        if (arr[position] === ControlChars.NewLine) {
+          lineStart = ++position; // skip the \n of a \r\n
+          continue;
+        }
       }
 
-      // start looking forward till the end of line:
+      // start looking forward till the end of line. A plain loop beats
+      // indexOf here, since most lines are only a few dozen bytes long:
       let lineEnd = -1; // index of the \r or \n char
-      for (; position < bufLength && lineEnd === -1; ++position) {
-        switch (buffer[position]) {
-          case ControlChars.Colon:
-            if (fieldLength === -1) {
-              // first colon in line
-              fieldLength = position - lineStart;
-            }
-            break;
-          // @ts-ignore:7029 \r case below should fallthrough to \n:
-          case ControlChars.CarriageReturn:
-            discardTrailingNewline = true;
-          case ControlChars.NewLine:
-            lineEnd = position;
-            break;
+      for (; position < length; ++position) {
+        const char = arr[position];
+        if (char === ControlChars.Colon) {
+          if (fieldLength === -1) {
+            // first colon in line
+            fieldLength = partialLength + position - lineStart;
+          }
+        } else if (
+          char === ControlChars.NewLine ||
+          char === ControlChars.CarriageReturn
+        ) {
+          lineEnd = position;
+          break;
         }
       }
 
       if (lineEnd === -1) {
-        // We reached the end of the buffer but the line hasn't ended.
-        // Wait for the next arr and then continue parsing:
+        // We reached the end of the chunk but the line hasn't ended.
+        // Keep the rest and continue when the next chunk arrives:
         break;
       }
 
       // we've reached the line end, send it out:
-      onLine(buffer.subarray(lineStart, lineEnd), fieldLength);
-      lineStart = position; // we're now on the next line
+      checkLength(partialLength + lineEnd - lineStart);
+      const rest = arr.subarray(lineStart, lineEnd);
+      const line = partial.length ? join(partial, partialLength, rest) : rest;
+      partial = [];
+      partialLength = 0;
+      onLine(line, fieldLength);
+
       fieldLength = -1;
+      discardTrailingNewline = arr[lineEnd] === ControlChars.CarriageReturn;
+      lineStart = position = lineEnd + 1; // we're now on the next line
     }
 
-    if (lineStart === bufLength) {
-      buffer = undefined; // we've finished reading it
-    } else if (lineStart !== 0) {
-      // Create a new view into buffer beginning at lineStart so we don't
-      // need to copy over the previous lines when we get the new arr:
-      buffer = buffer.subarray(lineStart);
-      position -= lineStart;
+    if (lineStart < length) {
+      partial.push(arr.subarray(lineStart));
+      partialLength += length - lineStart;
+      checkLength(partialLength);
     }
   };
 }
 
+export interface ParseOptions {
+  /**
+   * Follow the HTML spec's event stream interpretation rules exactly (the
+   * default). Set to false for the lenient behavior of earlier versions:
+   * - messages without `data` lines are dispatched with empty data,
+   * - `id` only applies to the message it appears in and may contain NULL,
+   * - `retry` accepts any value starting with an integer (e.g. "10s"),
+   * - lines without a colon are ignored instead of treated as a field with an empty value,
+   * - consecutive `data` lines with empty values are collapsed.
+   */
+  strict?: boolean;
+  /** Called for each `:` comment line with the text after the colon. */
+  onComment?: (comment: string) => void;
+  /** The maximum length of a line in bytes. Unlimited by default. */
+  maxLineLength?: number;
+  /** The maximum length of a message's `data` in characters. Unlimited by default. */
+  maxMessageSize?: number;
+}
+
 /**
  * Parses line buffers into EventSourceMessages.
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
  * @param onId A function that will be called on each `id` field.
  * @param onRetry A function that will be called on each `retry` field.
  * @param onMessage A function that will be called on each message.
+ * @param options Parser options, see `ParseOptions`.
  * @returns A function that should be called for each incoming line buffer.
  */
 export function getMessages(
   onId: (id: string) => void,
   onRetry: (retry: number) => void,
-  onMessage?: (msg: EventSourceMessage) => void
+  onMessage?: (msg: EventSourceMessage) => void,
+  { strict = true, onComment, maxMessageSize = Infinity }: ParseOptions = {}
 ) {
   let message = newMessage();
+  let hasData = false; // whether the current message has seen a `data` line
+  let lastEventId = ""; // persists across messages in strict mode
   const decoder = new TextDecoder();
 
   // return a function that can process each incoming line buffer:
   return function onLine(line: Uint8Array, fieldLength: number) {
     if (line.length === 0) {
-      // empty line denotes end of message. Trigger the callback and start a new message:
-      onMessage?.(message);
+      // empty line denotes end of message. Trigger the callback and start a new message.
+      // per spec, a message without data is not dispatched:
+      if (!strict) {
+        onMessage?.(message);
+      } else if (hasData) {
+        message.id = lastEventId;
+        onMessage?.(message);
+      }
       message = newMessage();
-    } else if (fieldLength > 0) {
-      // exclude comments and lines with no values
-      // line is of format "<field>:<value>" or "<field>: <value>"
-      // https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
-      const field = decoder.decode(line.subarray(0, fieldLength));
+      hasData = false;
+      return;
+    }
+
+    if (fieldLength === 0) {
+      // comment, e.g. a keep-alive. Like values, one leading space is dropped:
+      onComment?.(
+        decoder.decode(line.subarray(line[1] === ControlChars.Space ? 2 : 1))
+      );
+      return;
+    }
+    if (fieldLength === -1 && !strict) {
+      // in lenient mode, lines without a value are ignored
+      return;
+    }
+
+    // line is of format "<field>:<value>", "<field>: <value>" or "<field>":
+    let field: string;
+    let value = "";
+    if (fieldLength === -1) {
+      field = decoder.decode(line);
+    } else {
+      field = decoder.decode(line.subarray(0, fieldLength));
       const valueOffset =
         fieldLength + (line[fieldLength + 1] === ControlChars.Space ? 2 : 1);
-      const value = decoder.decode(line.subarray(valueOffset));
+      value = decoder.decode(line.subarray(valueOffset));
+    }
 
-      switch (field) {
-        case "data":
-          // if this message already has data, append the new value to the old.
-          // otherwise, just set to the new value:
-          message.data = message.data ? message.data + "\n" + value : value; // otherwise,
-          break;
-        case "event":
-          message.event = value;
-          break;
-        case "id":
+    switch (field) {
+      case "data":
+        // if this message already has data, append the new value to the old.
+        // otherwise, just set to the new value:
+        message.data = (strict ? hasData : message.data)
+          ? message.data + "\n" + value
+          : value;
+        hasData = true;
+        if (message.data.length > maxMessageSize) {
+          throw new MaxSizeExceededError("message", maxMessageSize);
+        }
+        break;
+      case "event":
+        message.event = value;
+        break;
+      case "id":
+        if (!strict) {
           onId((message.id = value));
-          break;
-        case "retry":
-          const retry = parseInt(value, 10);
-          if (!isNaN(retry)) {
-            // per spec, ignore non-integers
-            onRetry((message.retry = retry));
-          }
-          break;
-      }
+        } else if (!value.includes("\0")) {
+          // per spec, ignore ids containing NULL
+          onId((lastEventId = value));
+        }
+        break;
+      case "retry":
+        // per spec, ignore anything but ASCII digits
+        const retry =
+          strict && !/^\d+$/.test(value) ? NaN : parseInt(value, 10);
+        if (!isNaN(retry)) {
+          onRetry((message.retry = retry));
+        }
+        break;
     }
   };
 }
 
+/**
+ * Parses line buffers of newline-delimited JSON (NDJSON / JSON lines) into
+ * EventSourceMessages, one per line, with the line's text as `data`. Blank
+ * lines are skipped. The JSON itself is not parsed here, so a malformed line
+ * surfaces as a decode error in `handlers` instead of breaking the stream.
+ * @param onMessage A function that will be called on each non-blank line.
+ * @returns A function that should be called for each incoming line buffer.
+ */
+export function getJsonLines(onMessage: (msg: EventSourceMessage) => void) {
+  const decoder = new TextDecoder();
+
+  return function onLine(line: Uint8Array) {
+    const data = decoder.decode(line);
+    if (data.trim()) {
+      const message = newMessage();
+      message.data = data;
+      onMessage(message);
+    }
+  };
+}
+
+function join(chunks: Uint8Array[], length: number, last: Uint8Array) {
+  const res = new Uint8Array(length + last.length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    res.set(chunk, offset);
+    offset += chunk.length;
+  }
+  res.set(last, offset);
+  return res;
+}
+
 function concat(a: Uint8Array, b: Uint8Array) {
   const res = new Uint8Array(a.length + b.length);
   res.set(a);
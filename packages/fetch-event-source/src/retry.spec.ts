@@ -0,0 +1,124 @@
+import { isRetriableError, ResponseError, RetryError, RetryState } from './retry';
+
+function responseError(status: number) {
+    return new ResponseError('error', { status } as Response);
+}
+
+describe('retry', () => {
+    describe('isRetriableError', () => {
+        it('treats client errors as fatal', () => {
+            expect(isRetriableError(responseError(400))).toBeFalse();
+            expect(isRetriableError(responseError(401))).toBeFalse();
+            expect(isRetriableError(responseError(404))).toBeFalse();
+        });
+
+        it('retries timeouts, rate limits and server errors', () => {
+            expect(isRetriableError(responseError(408))).toBeTrue();
+            expect(isRetriableError(responseError(429))).toBeTrue();
+            expect(isRetriableError(responseError(503))).toBeTrue();
+        });
+
+        it('treats an OK response with the wrong content-type as fatal', () => {
+            expect(isRetriableError(responseError(200))).toBeFalse();
+        });
+
+        it('retries network errors', () => {
+            expect(isRetriableError(new TypeError('fetch failed'))).toBeTrue();
+        });
+    });
+
+    describe('RetryState', () => {
+        it('backs off exponentially up to the max interval', () => {
+            // arrange:
+            const state = new RetryState({ initialInterval: 100, multiplier: 3, maxInterval: 1000, jitter: 0 });
+            const delays: number[] = [];
+
+            // act:
+            for (let i = 0; i < 4; i++) {
+                state.fail();
+                delays.push(state.next(new Error()));
+            }
+
+            // assert:
+            expect(delays).toEqual([100, 300, 900, 1000]);
+        });
+
+        it('uses the server interval as the base', () => {
+            // arrange:
+            const state = new RetryState({ initialInterval: 100, jitter: 0 });
+
+            // act:
+            state.fail();
+            state.fail();
+            const delay = state.next(new Error(), 50);
+
+            // assert:
+            expect(delay).toEqual(100);
+        });
+
+        it('applies jitter within bounds', () => {
+            // arrange:
+            const state = new RetryState({ initialInterval: 1000, jitter: 0.5 });
+            state.fail();
+
+            // act:
+            const delays = Array.from({ length: 50 }, () => state.next(new Error()));
+
+            // assert:
+            for (const delay of delays) {
+                expect(delay).toBeGreaterThanOrEqual(500);
+                expect(delay).toBeLessThanOrEqual(1500);
+            }
+        });
+
+        it('gives up after max attempts', () => {
+            // arrange:
+            const state = new RetryState({ maxAttempts: 2, jitter: 0 });
+            const cause = new Error('boom');
+
+            // act:
+            state.fail();
+            state.next(cause);
+            state.fail();
+
+            // assert:
+            expect(() => state.next(cause)).toThrowMatching(
+                (err: any) => err instanceof RetryError && err.reason === 'max-attempts' && err.attempts === 2 && err.cause === cause);
+        });
+
+        it('gives up when the next delay exceeds the max elapsed time', () => {
+            // arrange:
+            const state = new RetryState({ initialInterval: 1000, maxElapsedTime: 500, jitter: 0 });
+            state.fail();
+
+            // act & assert:
+            expect(() => state.next(new Error())).toThrowMatching(
+                (err: any) => err instanceof RetryError && err.reason === 'max-elapsed-time');
+        });
+
+        it('fails fast on fatal errors', () => {
+            // arrange:
+            const state = new RetryState({});
+            state.fail();
+
+            // act & assert:
+            expect(() => state.next(responseError(403))).toThrowMatching(
+                (err: any) => err instanceof RetryError && err.reason === 'fatal');
+        });
+
+        it('restarts counting after a reset', () => {
+            // arrange:
+            const state = new RetryState({ initialInterval: 100, jitter: 0 });
+            state.fail();
+            state.fail();
+
+            // act:
+            state.reset();
+            const attempt = state.fail();
+
+            // assert:
+            expect(attempt).toEqual(1);
+            expect(state.next(new Error())).toEqual(100);
+        });
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Controls how `fetchEventSource` reconnects after a failed or dropped connection.
+ * All intervals are in milliseconds.
+ */
+export interface RetryPolicy {
+  /**
+   * The delay before the first retry. Defaults to 1000. If the server sends a
+   * `retry:` field, that value is used instead.
+   */
+  initialInterval?: number;
+  /** The factor the delay grows by after each consecutive failure. Defaults to 2. */
+  multiplier?: number;
+  /** The upper bound for a single delay. Defaults to 30000. */
+  maxInterval?: number;
+  /**
+   * Randomization factor between 0 and 1. A delay `d` becomes a random value in
+   * `[d * (1 - jitter), d * (1 + jitter)]`. Defaults to 0.5.
+   */
+  jitter?: number;
+  /** The number of consecutive failed attempts after which to give up. Defaults to Infinity. */
+  maxAttempts?: number;
+  /** The time since the first consecutive failure after which to give up. Defaults to Infinity. */
+  maxElapsedTime?: number;
+  /**
+   * Decides whether an error is worth retrying. Defaults to `isRetriableError`.
+   */
+  isRetriable?: (err: any) => boolean;
+}
+
+export type RetryErrorReason = "fatal" | "max-attempts" | "max-elapsed-time";
+
+/**
+ * Thrown when the connection fails and the retry policy decides not to reconnect.
+ * The original error is available as `cause`.
+ */
+export class RetryError extends Error {
+  constructor(
+    public readonly reason: RetryErrorReason,
+    /** The number of consecutive failed attempts, including the last one. */
+    public readonly attempts: number,
+    public readonly cause: any
+  ) {
+    super(
+      reason === "fatal"
+        ? `Not retrying after a fatal error: ${cause?.message ?? cause}`
+        : `Gave up after ${attempts} attempt(s) (${reason}): ${cause?.message ?? cause}`
+    );
+    this.name = "RetryError";
+  }
+}
+
+/**
+ * Thrown by the default `onopen` handler when the response can't be used as an
+ * event stream: a non-2xx status or an unexpected content-type.
+ */
+export class ResponseError extends Error {
+  readonly status: number;
+
+  constructor(message: string, public readonly response: Response) {
+    super(message);
+    this.name = "ResponseError";
+    this.status = response.status;
+  }
+}
+
+/**
+ * The default error classification. Client errors on open (4xx other than 408
+ * and 429) and responses that aren't event streams are fatal; network errors,
+ * server errors and dropped streams are retriable.
+ */
+export function isRetriableError(err: any): boolean {
+  if (err instanceof ResponseError) {
+    if (err.status >= 200 && err.status < 300) {
+      // an OK response with the wrong content-type won't fix itself
+      return false;
+    }
+    return err.status === 408 || err.status === 429 || err.status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Tracks consecutive failures and computes the delay before the next attempt.
+ */
+export class RetryState {
+  private attempts = 0;
+  private firstFailureAt = 0;
+
+  constructor(private readonly policy: RetryPolicy) {}
+
+  /** The number of consecutive failed attempts so far. */
+  get attempt() {
+    return this.attempts;
+  }
+
+  /** Records a failure and returns the new attempt number. */
+  fail() {
+    if (this.attempts === 0) {
+      this.firstFailureAt = Date.now();
+    }
+    return ++this.attempts;
+  }
+
+  /** Clears the failure count, e.g. after a successful open. */
+  reset() {
+    this.attempts = 0;
+  }
+
+  /**
+   * Returns the delay before the next attempt, or throws a `RetryError` if the
+   * policy says to give up.
+   * @param err The error that caused the failure.
+   * @param serverInterval The interval sent by the server's `retry:` field, if any.
+   */
+  next(err: any, serverInterval?: number) {
+    const {
+      initialInterval = 1000,
+      multiplier = 2,
+      maxInterval = 30000,
+      jitter = 0.5,
+      maxAttempts = Infinity,
+      maxElapsedTime = Infinity,
+      isRetriable = isRetriableError,
+    } = this.policy;
+
+    if (!isRetriable(err)) {
+      throw new RetryError("fatal", this.attempts, err);
+    }
+    if (this.attempts >= maxAttempts) {
+      throw new RetryError("max-attempts", this.attempts, err);
+    }
+
+    const base = serverInterval ?? initialInterval;
+    const exponential = base * Math.pow(multiplier, this.attempts - 1);
+    const randomized = exponential * (1 + jitter * (2 * Math.random() - 1));
+    const delay = Math.max(0, Math.min(maxInterval, randomized));
+
+    if (Date.now() - this.firstFailureAt + delay > maxElapsedTime) {
+      throw new RetryError("max-elapsed-time", this.attempts, err);
+    }
+    return delay;
+  }
+}
@@ -0,0 +1,116 @@
+import { MockEventServer } from './mock-server';
+import { EventSourceMessage } from './parse';
+import { sharedFetchEventSource } from './shared';
+
+/** An in-process stand-in for `navigator.locks`, shared by the simulated tabs. */
+class FakeLockManager {
+    private readonly queues = new Map<string, Promise<void>>();
+
+    request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>) {
+        const previous = this.queues.get(name) ?? Promise.resolve();
+        const granted = previous.then(() => {
+            if (options.signal?.aborted) {
+                throw new DOMException('The lock request was aborted', 'AbortError');
+            }
+            return callback();
+        });
+        this.queues.set(name, granted.catch(() => { }));
+        return granted;
+    }
+}
+
+describe('sharedFetchEventSource', () => {
+    let server: MockEventServer | undefined;
+
+    afterEach(async () => {
+        await server?.close();
+        server = undefined;
+    });
+
+    function tab(url: string, locks: FakeLockManager, received: EventSourceMessage[], init: { signal?: AbortSignal, onleader?: () => void, onclose?: () => void } = {}) {
+        return sharedFetchEventSource(url, {
+            ...init,
+            channelName: 'shared-spec',
+            locks: locks as unknown as LockManager,
+            onmessage: msg => { received.push(msg); },
+            onerror: () => 10,
+        });
+    }
+
+    function until(condition: () => boolean) {
+        return new Promise<void>(resolve => {
+            const timer = setInterval(() => {
+                if (condition()) {
+                    clearInterval(timer);
+                    resolve();
+                }
+            }, 5);
+        });
+    }
+
+    it('shares one connection and hands it over with the last event id', async () => {
+        // arrange:
+        server = new MockEventServer((request, attempt) => attempt === 1
+            ? { steps: [{ id: '1', data: 'one' }, { id: '2', data: 'two' }], end: 'hang' }
+            : { steps: [{ id: '3', data: `three after ${request.lastEventId}` }] });
+        const url = await server.listen();
+        const locks = new FakeLockManager();
+        const ctrlA = new AbortController();
+        const receivedA: EventSourceMessage[] = [];
+        const receivedB: EventSourceMessage[] = [];
+        const leaders: string[] = [];
+
+        // act:
+        const tabA = tab(url, locks, receivedA, { signal: ctrlA.signal, onleader: () => leaders.push('A') });
+        const tabB = tab(url, locks, receivedB, { onleader: () => leaders.push('B') });
+        await until(() => receivedB.length === 2);
+        ctrlA.abort();
+        await tabA;
+        await tabB;
+
+        // assert:
+        expect(leaders).toEqual(['A', 'B']);
+        expect(receivedA.map(m => m.data)).toEqual(['one', 'two']);
+        expect(receivedB.map(m => m.data)).toEqual(['one', 'two', 'three after 2']);
+        expect(server.requests.map(r => r.lastEventId)).toEqual([undefined, '2']);
+    });
+
+    it('closes every tab when the server closes the stream', async () => {
+        // arrange:
+        server = new MockEventServer([{ steps: [{ delay: 50 }, { data: 'bye' }] }]);
+        const url = await server.listen();
+        const locks = new FakeLockManager();
+        const receivedA: EventSourceMessage[] = [];
+        const receivedB: EventSourceMessage[] = [];
+        let closed = 0;
+
+        // act:
+        await Promise.all([
+            tab(url, locks, receivedA, { onclose: () => closed++ }),
+            tab(url, locks, receivedB, { onclose: () => closed++ }),
+        ]);
+
+        // assert:
+        expect(receivedA.map(m => m.data)).toEqual(['bye']);
+        expect(receivedB.map(m => m.data)).toEqual(['bye']);
+        expect(closed).toBe(2);
+        expect(server.requests.length).toBe(1);
+    });
+
+    it('opens a connection per tab without the Web Locks API', async () => {
+        // arrange:
+        server = new MockEventServer(() => ({ steps: [{ data: 'hi' }] }));
+        const url = await server.listen();
+        const received: EventSourceMessage[] = [];
+
+        // act:
+        await sharedFetchEventSource(url, {
+            onmessage: msg => { received.push(msg); },
+        });
+
+        // assert:
+        expect(typeof (globalThis as any).navigator?.locks).toBe('undefined');
+        expect(received.map(m => m.data)).toEqual(['hi']);
+        expect(server.requests.length).toBe(1);
+    });
+});
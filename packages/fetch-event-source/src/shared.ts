@@ -0,0 +1,167 @@
+import { fetchEventSource, FetchEventSourceInit } from "./fetch";
+import { createEventDispatcher } from "./events";
+import { EventSourceMessage } from "./parse";
+import { getStorageKey } from "./storage";
+
+export interface SharedEventSourceInit<
+  TEvents extends Record<string, any> = Record<string, any>
+> extends FetchEventSourceInit<TEvents> {
+  /**
+   * Tabs that use the same name share one connection. Defaults to a name
+   * derived from the request url.
+   */
+  channelName?: string;
+  /** Called when this tab becomes the leader and opens the real connection. */
+  onleader?: () => void;
+  /** Defaults to `navigator.locks`; used to elect the leader. */
+  locks?: LockManager;
+}
+
+// what the leader broadcasts to the other tabs:
+type SharedStreamMessage =
+  | { type: "message"; message: EventSourceMessage }
+  | { type: "close" }
+  | { type: "error"; error: any };
+
+/**
+ * Like `fetchEventSource`, but tabs of the same origin share one connection.
+ * One tab becomes the leader and holds the connection; the others receive
+ * its messages over a `BroadcastChannel` and call their own `onmessage` and
+ * `handlers`. When the leader closes or its signal is aborted, another tab
+ * takes over and reconnects with the last event id it has seen.
+ *
+ * `onopen` and `onerror` only run in the leader. When the server closes the
+ * stream, every tab calls `onclose` and resolves; when the leader fails for
+ * good, every tab rejects. Aborting the signal only stops this tab. Unlike
+ * `fetchEventSource`, the connection stays open while the leader is hidden
+ * unless `openWhenHidden: false` is passed, since other tabs may be visible.
+ *
+ * Without `BroadcastChannel` or the Web Locks API, every tab opens its own
+ * connection, as with `fetchEventSource`.
+ */
+export function sharedFetchEventSource<
+  TEvents extends Record<string, any> = Record<string, any>
+>(
+  input: RequestInfo,
+  {
+    channelName = `fetch-event-source:${getStorageKey(input)}`,
+    onleader,
+    locks = globalThis.navigator?.locks,
+    openWhenHidden = true,
+    ...init
+  }: SharedEventSourceInit<TEvents>
+): Promise<void> {
+  if (typeof BroadcastChannel === "undefined" || !locks) {
+    return fetchEventSource(input, { ...init, openWhenHidden });
+  }
+  const { signal, onmessage, handlers, ondecodeerror, onclose } = init;
+
+  return new Promise<void>((resolve, reject) => {
+    const channel = new BroadcastChannel(channelName);
+    // stops this tab's connection or its wait for leadership:
+    const ctrl = new AbortController();
+    const dispatch = handlers && createEventDispatcher(handlers, ondecodeerror);
+    let lastEventId = "";
+    let ended = false;
+
+    function end(failed: boolean, err?: any) {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      signal?.removeEventListener("abort", onAbort);
+      channel.close();
+      ctrl.abort();
+      if (failed) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    }
+
+    function onAbort() {
+      end(false);
+    }
+
+    function broadcast(data: SharedStreamMessage) {
+      try {
+        channel.postMessage(data);
+      } catch {
+        // errors that can't be cloned are sent as their message:
+        if (data.type === "error") {
+          channel.postMessage({ type: "error", error: String(data.error) });
+        }
+      }
+    }
+
+    channel.onmessage = ({ data }: MessageEvent<SharedStreamMessage>) => {
+      if (ended) {
+        return;
+      }
+      // a channel doesn't receive its own messages, so anything that arrives
+      // after this tab took over was sent by the previous leader before it
+      // left, and still counts:
+      switch (data.type) {
+        case "message":
+          lastEventId = data.message.id;
+          onmessage?.(data.message);
+          dispatch?.(data.message);
+          break;
+        case "close":
+          onclose?.();
+          end(false);
+          break;
+        case "error":
+          end(true, data.error);
+          break;
+      }
+    };
+
+    if (signal?.aborted) {
+      end(false);
+      return;
+    }
+    signal?.addEventListener("abort", onAbort);
+
+    locks
+      .request(channelName, { signal: ctrl.signal }, async () => {
+        // let messages the previous leader sent before leaving arrive first:
+        await new Promise((resolve) => setTimeout(resolve));
+        if (ended) {
+          return;
+        }
+        onleader?.();
+
+        // resume where the previous leader left off:
+        const headers = { ...init.headers };
+        if (lastEventId && headers["last-event-id"] === undefined) {
+          headers["last-event-id"] = lastEventId;
+        }
+        try {
+          await fetchEventSource(input, {
+            ...init,
+            headers,
+            openWhenHidden,
+            signal: ctrl.signal,
+            onmessage(msg) {
+              broadcast({ type: "message", message: msg });
+              return onmessage?.(msg);
+            },
+          });
+          if (!ctrl.signal.aborted) {
+            broadcast({ type: "close" });
+          }
+          end(false);
+        } catch (err) {
+          broadcast({ type: "error", error: err });
+          end(true, err);
+        }
+        // returning releases the lock, so the next tab takes over
+      })
+      .catch((err) => {
+        if (err?.name !== "AbortError") {
+          end(true, err);
+        }
+      });
+  });
+}
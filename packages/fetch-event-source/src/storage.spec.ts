@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileLastEventIdStorage } from './node';
+import { getStorageKey, MemoryLastEventIdStorage, SeenIds, WebLastEventIdStorage } from './storage';
+
+class FakeStorage {
+    readonly items = new Map<string, string>();
+    getItem(key: string) { return this.items.has(key) ? this.items.get(key)! : null; }
+    setItem(key: string, value: string) { this.items.set(key, value); }
+    removeItem(key: string) { this.items.delete(key); }
+}
+
+describe('storage', () => {
+    it('memory storage keeps ids per key', () => {
+        // arrange:
+        const storage = new MemoryLastEventIdStorage();
+
+        // act:
+        storage.set('a', '1');
+        storage.set('b', '2');
+        storage.delete('b');
+
+        // assert:
+        expect(storage.get('a')).toBe('1');
+        expect(storage.get('b')).toBeUndefined();
+    });
+
+    it('web storage prefixes keys', () => {
+        // arrange:
+        const fake = new FakeStorage();
+        const storage = new WebLastEventIdStorage(fake as unknown as Storage, 'sse:');
+
+        // act:
+        storage.set('/api/sse', '42');
+
+        // assert:
+        expect(fake.items.get('sse:/api/sse')).toBe('42');
+        expect(storage.get('/api/sse')).toBe('42');
+        storage.delete('/api/sse');
+        expect(storage.get('/api/sse')).toBeNull();
+    });
+
+    describe('file storage', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fes-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('survives a new instance', async () => {
+            // arrange:
+            const filePath = path.join(dir, 'nested', 'ids.json');
+            const previous = new FileLastEventIdStorage(filePath);
+            previous.set('/api/sse', '7');
+            await previous.flush();
+
+            // act:
+            const storage = new FileLastEventIdStorage(filePath);
+
+            // assert:
+            expect(storage.get('/api/sse')).toBe('7');
+            expect(fs.readdirSync(path.dirname(filePath))).toEqual(['ids.json']);
+        });
+
+        it('batches writes until flushed', async () => {
+            // arrange:
+            const filePath = path.join(dir, 'ids.json');
+            const storage = new FileLastEventIdStorage(filePath, 60000);
+
+            // act:
+            storage.set('/api/sse', '1');
+            storage.set('/api/sse', '2');
+            storage.set('/api/other', '3');
+            const before = fs.existsSync(filePath);
+            await storage.flush();
+
+            // assert:
+            expect(before).toBe(false);
+            expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual({ '/api/sse': '2', '/api/other': '3' });
+        });
+
+        it('writes after the delay', async () => {
+            // arrange:
+            const filePath = path.join(dir, 'ids.json');
+            const storage = new FileLastEventIdStorage(filePath, 10);
+
+            // act:
+            storage.set('/api/sse', '5');
+            await new Promise((resolve) => setTimeout(resolve, 50));
+
+            // assert:
+            expect(new FileLastEventIdStorage(filePath).get('/api/sse')).toBe('5');
+        });
+
+        it('returns nothing when the file does not exist', () => {
+            // act:
+            const storage = new FileLastEventIdStorage(path.join(dir, 'missing.json'));
+
+            // assert:
+            expect(storage.get('/api/sse')).toBeUndefined();
+        });
+    });
+
+    it('uses the request url as the default key', () => {
+        expect(getStorageKey('/api/sse')).toBe('/api/sse');
+        expect(getStorageKey({ url: 'http://host/api/sse' } as Request)).toBe('http://host/api/sse');
+    });
+
+    it('forgets the oldest ids beyond capacity', () => {
+        // arrange:
+        const seen = new SeenIds(2);
+
+        // act:
+        seen.add('1');
+        seen.add('2');
+        seen.add('1');
+        seen.add('3');
+
+        // assert:
+        expect(seen.has('1')).toBeTrue();
+        expect(seen.has('2')).toBeFalse();
+        expect(seen.has('3')).toBeTrue();
+    });
+});
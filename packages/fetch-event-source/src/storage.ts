@@ -0,0 +1,76 @@
+/**
+ * Persists the last event id of a stream, so a new `fetchEventSource` call can
+ * resume where a previous one (or a previous page load / process) left off.
+ * Keys identify the stream; by default the request url is used.
+ */
+export interface LastEventIdStorage {
+  get(key: string): string | null | undefined;
+  set(key: string, id: string): void;
+  delete(key: string): void;
+  /** Writes out buffered changes. Called when a stream ends. */
+  flush?(): void | Promise<void>;
+}
+
+/** Keeps last event ids in memory. Share one instance to resume within a process. */
+export class MemoryLastEventIdStorage implements LastEventIdStorage {
+  private readonly ids = new Map<string, string>();
+
+  get(key: string) {
+    return this.ids.get(key);
+  }
+
+  set(key: string, id: string) {
+    this.ids.set(key, id);
+  }
+
+  delete(key: string) {
+    this.ids.delete(key);
+  }
+}
+
+/** Keeps last event ids in `localStorage` (the default) or `sessionStorage`. */
+export class WebLastEventIdStorage implements LastEventIdStorage {
+  constructor(
+    private readonly storage: Storage = localStorage,
+    private readonly prefix = "fetch-event-source:last-event-id:"
+  ) {}
+
+  get(key: string) {
+    return this.storage.getItem(this.prefix + key);
+  }
+
+  set(key: string, id: string) {
+    this.storage.setItem(this.prefix + key, id);
+  }
+
+  delete(key: string) {
+    this.storage.removeItem(this.prefix + key);
+  }
+}
+
+/** The default storage key for a request: its url. */
+export function getStorageKey(input: RequestInfo) {
+  return typeof input === "string" ? input : input.url;
+}
+
+/**
+ * Remembers the most recent message ids, so replayed messages can be dropped.
+ */
+export class SeenIds {
+  private readonly ids = new Set<string>();
+
+  constructor(private readonly capacity: number) {}
+
+  has(id: string) {
+    return this.ids.has(id);
+  }
+
+  add(id: string) {
+    this.ids.delete(id);
+    this.ids.add(id);
+    if (this.ids.size > this.capacity) {
+      // sets iterate in insertion order, so the first id is the oldest:
+      this.ids.delete(this.ids.values().next().value!);
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { EventStreamContentType } from './fetch';
+
+// Shared helpers for the specs that run against a local SSE server (not published).
+
+export type Handler = (req: http.IncomingMessage, res: http.ServerResponse, attempt: number) => void;
+
+/** Starts a local server and resolves with its base url. Every request increments the attempt counter. */
+export function startServer(handler: Handler): Promise<{ url: string, server: http.Server }> {
+    let attempt = 0;
+    const server = http.createServer((req, res) => handler(req, res, ++attempt));
+    return new Promise(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({ url: `http://127.0.0.1:${port}/`, server });
+        });
+    });
+}
+
+export function writeStream(res: http.ServerResponse, body: string) {
+    res.writeHead(200, { 'content-type': EventStreamContentType });
+    res.end(body);
+}
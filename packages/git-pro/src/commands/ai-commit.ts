@@ -1,15 +1,20 @@
 import inquirer from "inquirer";
-import { gitService } from "../services/git";
+import chalk from "chalk";
+import Table from "cli-table3";
+import { gitService, CommitMessage } from "../services/git";
 import { configService } from "../services/config";
-import { aiService } from "../services/ai";
+import { aiService, GENERATION_CANCELLED } from "../services/ai";
+import { settingsService } from "../services/settings";
+import { historyService } from "../services/history";
 import { Logger } from "../utils/logger";
-import simpleGit from "simple-git";
+import { CommitOptions, isNonInteractive, commitNonInteractive } from "./commit";
 
 /**
  * AI 辅助提交命令
  * 使用 DeepSeek AI 生成提交信息并提交代码
+ * 传入 --yes/--ai/--type/--subject 等参数时以非交互模式运行
  */
-export async function aiCommitCommand(): Promise<void> {
+export async function aiCommitCommand(options: CommitOptions = {}): Promise<void> {
   try {
     // 注意：即使没有配置文件也能使用AI提交功能
     // 检查配置文件，但仅作为提示，不阻止继续
@@ -17,22 +22,12 @@ export async function aiCommitCommand(): Promise<void> {
       Logger.warn("未找到配置文件，将使用默认配置");
     }
 
-    // 快速检查暂存文件数量，避免使用耗费性能的方法
-    const git = simpleGit();
-    const status = await git.status();
-    const fileCount = status.staged.length;
-
-    // 当文件数量超过阈值时，直接进入常规提交流程，跳过耗费性能的操作
-    if (fileCount > 20) {
-      Logger.warn(`检测到暂存文件数量(${fileCount})较多`);
-      Logger.info("文件数量超过20个时，自动切换到常规提交流程");
-
-      // 直接进入提交类型选择界面，跳过confirmCommit和其他耗费性能的方法
-      await gitService.commitWithCz();
+    // 非交互模式：跳过所有提示，默认使用 AI 生成提交信息
+    if (isNonInteractive(options)) {
+      await commitNonInteractive(options, true);
       return;
     }
 
-    // 文件数量较少时，继续正常流程
     // 提交前确认
     const confirmed = await gitService.confirmCommit();
     if (!confirmed) {
@@ -62,60 +57,299 @@ export async function aiCommitCommand(): Promise<void> {
     }
 
 
+    let selection: CandidateSelection;
     try {
-      // 通过 AI 生成提交信息
-      const aiCommitMessage = await aiService.generateCommitMessage();
-
-      // 格式化完整预览
-      let formattedMessage = `${aiCommitMessage.type}`;
-      if (aiCommitMessage.scope) {
-        formattedMessage += `(${aiCommitMessage.scope})`;
-      }
-      formattedMessage += `: ${aiCommitMessage.subject}`;
-
-      if (aiCommitMessage.body) {
-        formattedMessage += `\n\n${aiCommitMessage.body}`;
-      }
-
-      // 显示 AI 生成的提交信息预览
-      console.log("\nAI 生成的提交信息预览:");
-      console.log("----------------------------------");
-      console.log(formattedMessage);
-      console.log("----------------------------------");
-
-      // 让用户确认或编辑 AI 生成的提交信息
-      const { useAiMessage } = await inquirer.prompt([
-        {
-          type: "confirm",
-          name: "useAiMessage",
-          message: "是否使用 AI 生成的提交信息?",
-          default: true,
-        },
-      ]);
-
-      // 如果用户同意使用 AI 生成的信息，执行提交
-      if (useAiMessage) {
-        await gitService.commitWithMessage({
-          type: aiCommitMessage.type,
-          scope: aiCommitMessage.scope,
-          subject: aiCommitMessage.subject,
-          body: aiCommitMessage.body,
-        });
-        Logger.success("AI 辅助提交成功！");
-      } else {
-        // 用户不使用 AI 生成的信息，回退到传统的提交流程
-        Logger.info("将使用传统提交流程...");
-        await gitService.commitWithCz();
-      }
+      // 通过 AI 生成候选提交信息并由用户选择
+      selection = await selectCandidate();
     } catch (error: any) {
+      if (error.message === GENERATION_CANCELLED) {
+        Logger.info("已取消生成");
+        return;
+      }
       Logger.error("AI 生成提交信息失败: " + error.message);
       Logger.info("将回退到传统提交流程...");
 
       // AI 失败，回退到传统的提交流程
       await gitService.commitWithCz();
+      return;
+    }
+
+    if (!selection.message) {
+      // 用户不使用 AI 生成的信息，回退到传统的提交流程
+      await recordSelection(selection, CONVENTIONAL);
+      Logger.info("将使用传统提交流程...");
+      await gitService.commitWithCz();
+      return;
+    }
+
+    const message = await ensureValid(selection.message);
+    // 按最终结果记录：校验时编辑、取消或改用常规提交都会改变去向
+    await recordSelection(selection, message);
+    if (!message) {
+      Logger.info("已取消提交");
+      return;
+    }
+    if (message === CONVENTIONAL) {
+      Logger.info("将使用传统提交流程...");
+      await gitService.commitWithCz();
+      return;
     }
+
+    console.log("\n最终提交信息:");
+    console.log("----------------------------------");
+    console.log(gitService.formatCommitMessage(message));
+    console.log("----------------------------------");
+
+    await gitService.commitWithMessage(message);
   } catch (error: any) {
     Logger.error("提交失败：" + error.message);
     process.exit(1);
   }
 }
+
+/** ensureValid 的返回值，表示用户改用常规提交流程 */
+const CONVENTIONAL = "conventional";
+
+/**
+ * 按 commitizen 配置校验选中或编辑后的提交信息（与非交互模式相同），
+ * 不通过时由用户编辑、改用常规提交或取消
+ * @returns 校验通过的提交信息，取消时返回 null
+ */
+async function ensureValid(
+  message: CommitMessage
+): Promise<CommitMessage | typeof CONVENTIONAL | null> {
+  let current: CommitMessage = {
+    ...message,
+    type: await gitService.resolveCommitType(message.type),
+  };
+
+  while (true) {
+    const errors = await gitService.validateCommitMessage(current);
+    if (errors.length === 0) {
+      return current;
+    }
+
+    Logger.warn(
+      `提交信息校验失败:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+    const { action } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "如何处理?",
+        choices: [
+          { name: "✏️ 编辑后提交", value: "edit" },
+          { name: "✍️ 使用常规提交流程", value: CONVENTIONAL },
+          { name: "❌ 取消提交", value: "cancel" },
+        ],
+      },
+    ]);
+
+    if (action === "cancel") return null;
+    if (action === CONVENTIONAL) return CONVENTIONAL;
+    current = await gitService.editCommitMessage(current);
+  }
+}
+
+/** 可由用户编辑的提交信息字段 */
+const EDITABLE_FIELDS = ["type", "scope", "subject", "body"] as const;
+
+/** AI 候选选择结果 */
+interface CandidateSelection {
+  /** 选中（可能已编辑）的提交信息，为 null 表示用户改用常规提交 */
+  message: CommitMessage | null;
+  /** 选中的原始候选，用于统计被修改的字段 */
+  candidate?: CommitMessage;
+  /** 每轮候选数量 */
+  count: number;
+  /** 选中的候选序号 */
+  chosen?: number;
+  /** 重新生成次数 */
+  regenerations: number;
+}
+
+/**
+ * 生成候选提交信息，由用户选择、编辑或附加说明后重新生成
+ */
+async function selectCandidate(): Promise<CandidateSelection> {
+  const { candidates: candidatesConfig } = await settingsService.load();
+  const count = Math.max(1, candidatesConfig.count);
+
+  let regenerations = 0;
+  let guidance: string | undefined;
+  let candidates = await generateCandidates(count);
+
+  while (true) {
+    displayCandidates(candidates);
+
+    const { choice } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "choice",
+        message: "请选择提交信息:",
+        choices: [
+          ...candidates.map((candidate, index) => ({
+            name: `候选 ${index + 1}: ${formatHeader(candidate)}`,
+            value: index,
+          })),
+          new inquirer.Separator(),
+          { name: "🔄 重新生成（可补充说明）", value: "regenerate" },
+          { name: "✍️ 使用常规提交流程", value: "manual" },
+        ],
+      },
+    ]);
+
+    if (choice === "manual") {
+      return { message: null, count, regenerations };
+    }
+
+    if (choice === "regenerate") {
+      const answers = await inquirer.prompt([
+        {
+          type: "input",
+          name: "guidance",
+          message: "补充说明（可选，如：提及数据库迁移）:",
+          default: guidance,
+        },
+      ]);
+      guidance = answers.guidance.trim() || undefined;
+      candidates = await generateCandidates(count, guidance);
+      regenerations++;
+      continue;
+    }
+
+    const candidate: CommitMessage = candidates[choice];
+    const { action } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "如何使用该候选?",
+        choices: [
+          { name: "✅ 直接提交", value: "commit" },
+          { name: "✏️ 编辑后提交", value: "edit" },
+          { name: "↩️ 返回重新选择", value: "back" },
+        ],
+      },
+    ]);
+
+    if (action === "back") {
+      continue;
+    }
+
+    if (action === "commit") {
+      return { message: candidate, candidate, count, chosen: choice, regenerations };
+    }
+
+    const edited = await gitService.editCommitMessage(candidate);
+    return { message: edited, candidate, count, chosen: choice, regenerations };
+  }
+}
+
+/**
+ * 生成候选提交信息，在终端实时显示流式输出，Ctrl+C 可取消
+ */
+async function generateCandidates(
+  count: number,
+  guidance?: string
+): Promise<CommitMessage[]> {
+  const controller = new AbortController();
+  const onSigint = () => controller.abort();
+  process.once("SIGINT", onSigint);
+
+  const render = Boolean(process.stdout.isTTY);
+  let rendered = false;
+
+  try {
+    return await aiService.generateCommitMessages(count, guidance, {
+      signal: controller.signal,
+      onToken: (token) => {
+        if (!render) return;
+        rendered = true;
+        process.stdout.write(chalk.grey(token));
+      },
+      onStreamEnd: () => {
+        if (rendered) process.stdout.write("\n");
+      },
+    });
+  } finally {
+    process.removeListener("SIGINT", onSigint);
+  }
+}
+
+/**
+ * 并排展示候选提交信息
+ */
+function displayCandidates(candidates: CommitMessage[]): void {
+  const labelWidth = 10;
+  const totalWidth = process.stdout.columns || 100;
+  const colWidth = Math.max(
+    20,
+    Math.floor((totalWidth - labelWidth - candidates.length - 1) / candidates.length)
+  );
+
+  const table = new Table({
+    head: ["", ...candidates.map((_, index) => chalk.blue(`候选 ${index + 1}`))],
+    colWidths: [labelWidth, ...candidates.map(() => colWidth)],
+    wordWrap: true,
+    style: {
+      head: ["cyan"],
+      border: ["grey"],
+    },
+  });
+
+  table.push(
+    [chalk.cyan("类型"), ...candidates.map((c) => c.type)],
+    [chalk.cyan("范围"), ...candidates.map((c) => c.scope || chalk.grey("-"))],
+    [chalk.cyan("描述"), ...candidates.map((c) => c.subject)],
+    [chalk.cyan("详细描述"), ...candidates.map((c) => c.body || chalk.grey("-"))]
+  );
+
+  console.log(table.toString());
+}
+
+/** 提交信息首行，如 ✨ feat(用户模块): 新增登录 */
+function formatHeader(message: CommitMessage): string {
+  return gitService.formatCommitMessage({ ...message, body: undefined });
+}
+
+/**
+ * 在本地记录候选的最终去向
+ * @param result ensureValid 的结果：最终提交的信息、改用常规提交或取消（null）
+ */
+async function recordSelection(
+  selection: CandidateSelection,
+  result: CommitMessage | typeof CONVENTIONAL | null
+): Promise<void> {
+  const { candidates } = await settingsService.load();
+  if (!candidates.log) return;
+
+  let editedFields: string[] = [];
+  if (result && result !== CONVENTIONAL && selection.candidate) {
+    // 最终信息的类型已规范为完整形式，原始候选也按同样方式比较
+    const original: CommitMessage = {
+      ...selection.candidate,
+      type: await gitService.resolveCommitType(selection.candidate.type),
+    };
+    editedFields = EDITABLE_FIELDS.filter(
+      (field) => (original[field] || "") !== (result[field] || "")
+    );
+  }
+
+  const { provider, model } = aiService.getModelInfo();
+  historyService.record({
+    provider,
+    model,
+    candidates: selection.count,
+    regenerations: selection.regenerations,
+    outcome:
+      result === null
+        ? "cancelled"
+        : result === CONVENTIONAL
+        ? "manual"
+        : editedFields.length > 0
+        ? "edited"
+        : "accepted",
+    chosen: selection.chosen,
+    editedFields,
+  });
+}
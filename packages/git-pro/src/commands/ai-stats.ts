@@ -0,0 +1,37 @@
+import chalk from "chalk";
+import { historyService } from "../services/history";
+import { Logger } from "../utils/logger";
+
+/** 百分比格式化 */
+function percent(value: number, total: number): string {
+  return total ? `${((value / total) * 100).toFixed(1)}%` : "0%";
+}
+
+/**
+ * 查看 AI 候选提交信息的使用情况
+ */
+export async function aiStatsCommand(): Promise<void> {
+  const stats = historyService.summarize();
+
+  if (stats.total === 0) {
+    Logger.info(`暂无记录，记录文件: ${historyService.getFilePath()}`);
+    return;
+  }
+
+  const { accepted, edited, manual, cancelled } = stats.outcomes;
+  console.log(`${chalk.cyan("AI 提交会话")}: ${stats.total} 次`);
+  console.log(`${chalk.green("直接采用")}: ${accepted} 次 (${percent(accepted, stats.total)})`);
+  console.log(`${chalk.yellow("编辑后采用")}: ${edited} 次 (${percent(edited, stats.total)})`);
+  console.log(`${chalk.red("改用常规提交")}: ${manual} 次 (${percent(manual, stats.total)})`);
+  console.log(`${chalk.grey("取消提交")}: ${cancelled} 次 (${percent(cancelled, stats.total)})`);
+  console.log(`${chalk.cyan("平均重新生成")}: ${stats.averageRegenerations.toFixed(2)} 次`);
+
+  const fields = Object.entries(stats.editedFields).sort((a, b) => b[1] - a[1]);
+  if (fields.length > 0) {
+    console.log(
+      `${chalk.cyan("常被修改的字段")}: ${fields
+        .map(([field, count]) => `${field}(${count})`)
+        .join(", ")}`
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import inquirer from "inquirer";
+import chalk from "chalk";
+import { credentialService, maskSecret } from "../services/credentials";
+import { settingsService } from "../services/settings";
+import { getProviderNames, DEFAULT_PROVIDER } from "../services/providers";
+import { Logger } from "../utils/logger";
+
+interface AuthOptions {
+  /** 服务商名称，默认使用配置中的 api.provider */
+  provider?: string;
+  /** 直接传入密钥（不推荐，会留在 shell 历史中） */
+  key?: string;
+  /** 跳过系统钥匙串，保存到密钥文件 */
+  file?: boolean;
+}
+
+/** 解析要操作的服务商 */
+async function resolveProvider(options: AuthOptions): Promise<string> {
+  return (
+    options.provider ||
+    (await settingsService.get("api.provider")) ||
+    DEFAULT_PROVIDER
+  );
+}
+
+/**
+ * 保存 API 密钥
+ */
+export async function authLoginCommand(options: AuthOptions): Promise<void> {
+  try {
+    const provider = await resolveProvider(options);
+
+    let key = options.key;
+    if (!key) {
+      const answers = await inquirer.prompt([
+        {
+          type: "password",
+          name: "key",
+          mask: "*",
+          message: `请输入 ${provider} 的 API 密钥:`,
+          validate: (input: string) =>
+            input.trim().length > 0 ? true : "密钥不能为空",
+        },
+      ]);
+      key = answers.key as string;
+    }
+
+    const source = credentialService.setApiKey(provider, key.trim(), options.file);
+    const location =
+      source === "keyring"
+        ? credentialService.getKeyring()?.name
+        : credentialService.getFilePath();
+    Logger.success(`已保存 ${provider} 的 API 密钥到 ${location}`);
+  } catch (error: any) {
+    Logger.error(`保存密钥失败: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 删除 API 密钥
+ */
+export async function authLogoutCommand(options: AuthOptions): Promise<void> {
+  try {
+    const provider = await resolveProvider(options);
+    if (credentialService.deleteApiKey(provider)) {
+      Logger.success(`已删除 ${provider} 的 API 密钥`);
+    } else {
+      Logger.warn(`未找到 ${provider} 的已保存密钥`);
+    }
+  } catch (error: any) {
+    Logger.error(`删除密钥失败: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 查看各服务商的密钥状态
+ */
+export async function authStatusCommand(): Promise<void> {
+  const current = await resolveProvider({});
+  const keyring = credentialService.getKeyring();
+
+  console.log(
+    `${chalk.cyan("系统钥匙串")}: ${keyring ? keyring.name : chalk.grey("不可用")}`
+  );
+  console.log(`${chalk.cyan("密钥文件")}: ${credentialService.getFilePath()}`);
+
+  for (const provider of getProviderNames()) {
+    const credential = credentialService.getApiKey(provider);
+    const marker = provider === current ? chalk.green("*") : " ";
+    const status = credential
+      ? `${maskSecret(credential.key)} ${chalk.grey(`(${credential.source})`)}`
+      : chalk.grey("未登录");
+    console.log(`${marker} ${provider.padEnd(10)} ${status}`);
+  }
+}
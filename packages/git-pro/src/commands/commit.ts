@@ -1,14 +1,102 @@
-import { gitService } from "../services/git";
+import { gitService, CommitMessage } from "../services/git";
 import { configService } from "../services/config";
+import { aiService } from "../services/ai";
 import { Logger } from "../utils/logger";
 
-export async function commitCommand(): Promise<void> {
+/** 提交类命令的命令行参数 */
+export interface CommitOptions {
+  /** 跳过所有交互提示 */
+  yes?: boolean;
+  type?: string;
+  scope?: string;
+  subject?: string;
+  body?: string;
+  /** 使用 AI 生成提交信息 */
+  ai?: boolean;
+}
+
+/**
+ * 是否以非交互模式运行
+ * 传入 --yes、--ai 或任一提交信息参数（包括 --scope、--body）时均不再弹出提示，
+ * 缺少 --type/--subject 时由 commitNonInteractive 报错，而不是忽略已传入的参数
+ */
+export function isNonInteractive(options: CommitOptions): boolean {
+  return Boolean(
+    options.yes ||
+      options.ai ||
+      options.type ||
+      options.scope ||
+      options.subject ||
+      options.body
+  );
+}
+
+/**
+ * 非交互提交：根据命令行参数（或 AI）生成提交信息，校验通过后直接提交
+ * @param preferAI 未指定 --type/--subject 时是否默认使用 AI 生成
+ * @throws {Error} 暂存区为空、参数缺失或校验失败时抛出错误
+ */
+export async function commitNonInteractive(
+  options: CommitOptions,
+  preferAI: boolean
+): Promise<void> {
+  const { totalFiles } = await gitService.getStagedFilesInfo();
+  if (totalFiles === 0) {
+    throw new Error("暂存区没有文件，请先使用 git add 添加要提交的文件");
+  }
+
+  const useAI =
+    options.ai || (preferAI && !options.type && !options.subject);
+
+  let message: CommitMessage;
+  if (useAI) {
+    // 无人确认结果，AI 响应无法解析时直接失败，避免提交默认的占位信息
+    const aiMessage = await aiService.generateCommitMessage({ strict: true });
+    // 命令行参数优先于 AI 生成的内容
+    message = {
+      type: options.type ?? aiMessage.type,
+      scope: options.scope ?? aiMessage.scope,
+      subject: options.subject ?? aiMessage.subject,
+      body: options.body ?? aiMessage.body,
+    };
+  } else {
+    if (!options.type || !options.subject) {
+      throw new Error(
+        "非交互模式下必须提供 --type 和 --subject，或使用 --ai 自动生成提交信息"
+      );
+    }
+    message = {
+      type: options.type,
+      scope: options.scope,
+      subject: options.subject,
+      body: options.body,
+    };
+  }
+
+  message.type = await gitService.resolveCommitType(message.type);
+
+  const errors = await gitService.validateCommitMessage(message);
+  if (errors.length > 0) {
+    throw new Error(
+      `提交信息校验失败:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  await gitService.commitWithMessage(message);
+}
+
+export async function commitCommand(options: CommitOptions = {}): Promise<void> {
   try {
     // 检查配置文件，但即使没有也可以继续
     if (!configService.hasConfig()) {
       Logger.warn("未找到配置文件，将使用默认配置");
     }
 
+    if (isNonInteractive(options)) {
+      await commitNonInteractive(options, false);
+      return;
+    }
+
     // 提交前确认
     const confirmed = await gitService.confirmCommit();
     if (!confirmed) {
@@ -18,8 +106,8 @@ export async function commitCommand(): Promise<void> {
 
     // 使用 commitizen 进行提交
     await gitService.commitWithCz();
-  } catch (error) {
-    Logger.error("提交失败：" + error);
+  } catch (error: any) {
+    Logger.error("提交失败：" + (error.message || error));
     process.exit(1);
   }
 }
@@ -0,0 +1,96 @@
+import chalk from "chalk";
+import { settingsService } from "../services/settings";
+import { Logger } from "../utils/logger";
+
+interface ConfigScopeOptions {
+  /** 操作用户级配置（~/.git-pro/config.json） */
+  global?: boolean;
+}
+
+/** 格式化配置值用于输出 */
+function formatValue(value: any): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * 读取合并后的配置项
+ */
+export async function configGetCommand(key: string): Promise<void> {
+  try {
+    const value = await settingsService.get(key);
+    if (value === undefined) {
+      Logger.warn(`未找到配置项 ${key}`);
+      process.exit(1);
+    }
+    console.log(
+      typeof value === "object" ? JSON.stringify(value, null, 2) : String(value)
+    );
+  } catch (error: any) {
+    Logger.error(`读取配置失败: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 写入配置项（默认写入仓库级配置）
+ */
+export async function configSetCommand(
+  key: string,
+  value: string,
+  options: ConfigScopeOptions
+): Promise<void> {
+  try {
+    const filePath = settingsService.set(key, value, options.global);
+    Logger.success(`已将 ${key} 写入 ${filePath}`);
+  } catch (error: any) {
+    Logger.error(`写入配置失败: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 删除配置项（默认删除仓库级配置中的项）
+ */
+export async function configUnsetCommand(
+  key: string,
+  options: ConfigScopeOptions
+): Promise<void> {
+  try {
+    if (!settingsService.unset(key, options.global)) {
+      Logger.warn(`配置文件中不存在 ${key}`);
+      return;
+    }
+    Logger.success(`已删除配置项 ${key}`);
+  } catch (error: any) {
+    Logger.error(`删除配置失败: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 列出合并后的全部配置及其来源
+ */
+export async function configListCommand(): Promise<void> {
+  try {
+    const entries = await settingsService.list();
+    for (const { key, value, source } of entries) {
+      console.log(
+        `${chalk.cyan(key)} = ${formatValue(value)} ${chalk.grey(`(${source})`)}`
+      );
+    }
+  } catch (error: any) {
+    Logger.error(`读取配置失败: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 显示各层配置文件路径
+ */
+export async function configPathCommand(): Promise<void> {
+  const remoteUrl = await settingsService.get("remoteConfigUrl");
+  console.log(`${chalk.cyan("用户配置")}: ${settingsService.getUserConfigPath()}`);
+  console.log(`${chalk.cyan("仓库配置")}: ${settingsService.getRepoConfigPath()}`);
+  console.log(`${chalk.cyan("远程缓存")}: ${settingsService.getCachePath()}`);
+  console.log(`${chalk.cyan("远程配置")}: ${remoteUrl || chalk.grey("未配置")}`);
+}
@@ -0,0 +1,118 @@
+import { readFileSync, writeFileSync } from "fs";
+import chalk from "chalk";
+import { gitService } from "../services/git";
+import { aiService } from "../services/ai";
+import {
+  hooksService,
+  HookName,
+  HookResult,
+  HOOK_NAMES,
+  SKIP_HOOKS_ENV,
+} from "../services/hooks";
+import { Logger } from "../utils/logger";
+
+/** hooks 命令的命令行参数 */
+interface HooksOptions {
+  /** 只处理指定的钩子 */
+  only?: HookName;
+}
+
+/** 各操作结果的说明 */
+const ACTION_LABELS: Record<HookResult["action"], string> = {
+  created: chalk.green("已创建"),
+  inserted: chalk.green("已插入到原有钩子开头"),
+  chained: chalk.green("已包装原有钩子"),
+  updated: chalk.cyan("已更新"),
+  removed: chalk.yellow("已移除"),
+  skipped: chalk.gray("未安装，跳过"),
+};
+
+/** 解析 --only 参数 */
+function selectHooks(options: HooksOptions): HookName[] {
+  if (!options.only) return HOOK_NAMES;
+  if (!HOOK_NAMES.includes(options.only)) {
+    throw new Error(
+      `不支持的钩子 "${options.only}"，可选值: ${HOOK_NAMES.join(", ")}`
+    );
+  }
+  return [options.only];
+}
+
+/** 输出每个钩子的处理结果 */
+function printResults(results: HookResult[]): void {
+  for (const result of results) {
+    console.log(`${ACTION_LABELS[result.action]} ${result.name}  ${chalk.gray(result.path)}`);
+  }
+}
+
+/**
+ * 安装 prepare-commit-msg 与 commit-msg 钩子
+ */
+export async function hooksInstallCommand(options: HooksOptions): Promise<void> {
+  try {
+    const { husky } = hooksService.getHooksDir();
+    printResults(hooksService.install(selectHooks(options)));
+    if (husky) {
+      Logger.info("检测到 husky，已写入 .husky 下的钩子脚本，请将其提交到仓库");
+    }
+    Logger.success(
+      `钩子安装完成，单次提交可使用 ${SKIP_HOOKS_ENV}=1 git commit 跳过`
+    );
+  } catch (error: any) {
+    Logger.error(`安装钩子失败：${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 更新已安装的钩子
+ */
+export async function hooksUpdateCommand(): Promise<void> {
+  try {
+    printResults(hooksService.update());
+  } catch (error: any) {
+    Logger.error(`更新钩子失败：${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * 卸载钩子，保留并恢复原有钩子
+ */
+export async function hooksUninstallCommand(options: HooksOptions): Promise<void> {
+  try {
+    printResults(hooksService.uninstall(selectHooks(options)));
+  } catch (error: any) {
+    Logger.error(`卸载钩子失败：${error.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * prepare-commit-msg 钩子：用 AI 生成的提交信息预填编辑器
+ * 仅在直接打开编辑器时生成（-m、-F、模板、合并、squash 及 --amend 时不处理），
+ * 任何失败都不影响提交
+ * @param file 提交信息文件
+ * @param source 提交信息来源，由 git 传入
+ */
+export async function hooksPrepareCommitMsgCommand(
+  file: string,
+  source?: string
+): Promise<void> {
+  try {
+    if (source) return;
+
+    const { totalFiles } = await gitService.getStagedFilesInfo();
+    if (totalFiles === 0) return;
+
+    const message = await aiService.generateCommitMessage();
+    message.type = await gitService.resolveCommitType(message.type);
+    const suggestion = gitService.formatCommitMessage(message);
+
+    // 保留 git 写入的注释（改动文件列表等）
+    const existing = readFileSync(file, "utf8");
+    writeFileSync(file, `${suggestion}\n${existing.startsWith("\n") ? "" : "\n"}${existing}`);
+  } catch (error: any) {
+    Logger.warn(`未能预填提交信息：${error.message || error}`);
+  }
+}
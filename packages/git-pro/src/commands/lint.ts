@@ -0,0 +1,117 @@
+import { readFileSync } from "fs";
+import { execSync } from "child_process";
+import chalk from "chalk";
+import { gitService } from "../services/git";
+import { Logger } from "../utils/logger";
+
+/** lint 命令的命令行参数 */
+export interface LintOptions {
+  /** 校验提交信息文件，不带路径时为 .git/COMMIT_EDITMSG（供 commit-msg 钩子使用） */
+  edit?: string | boolean;
+  /** 校验 from..to 范围内的提交（不含 from） */
+  from?: string;
+  /** 范围终点，默认为 HEAD */
+  to?: string;
+  /** 以 JSON 格式输出结果 */
+  json?: boolean;
+}
+
+/** 单条提交信息的校验结果 */
+interface LintResult {
+  hash?: string;
+  header: string;
+  valid: boolean;
+  errors: string[];
+}
+
+/** 退出码：0 全部通过，1 存在不合规的提交信息，2 参数或执行错误 */
+const EXIT_INVALID = 1;
+const EXIT_ERROR = 2;
+
+/**
+ * 读取待校验的提交信息
+ * @throws {Error} 参数冲突或读取失败时抛出错误
+ */
+async function readMessages(
+  options: LintOptions
+): Promise<Array<{ hash?: string; message: string }>> {
+  if (options.edit && (options.from || options.to)) {
+    throw new Error("--edit 不能与 --from/--to 同时使用");
+  }
+
+  if (options.edit) {
+    const file =
+      typeof options.edit === "string"
+        ? options.edit
+        : execSync("git rev-parse --git-path COMMIT_EDITMSG").toString().trim();
+    return [{ message: readFileSync(file, "utf8") }];
+  }
+
+  return gitService.getCommitMessages(options.from, options.to || "HEAD");
+}
+
+/**
+ * 按 commitizen 配置校验提交信息，可用作 commit-msg 钩子或在 CI 中检查提交范围
+ */
+export async function lintCommand(options: LintOptions = {}): Promise<void> {
+  Logger.setQuiet(Boolean(options.json));
+
+  let results: LintResult[];
+  try {
+    const messages = await readMessages(options);
+    results = [];
+    for (const { hash, message } of messages) {
+      const errors = await gitService.lintCommitMessage(message);
+      results.push({
+        hash,
+        header:
+          message
+            .split("\n")
+            .find((line) => line.trim() && !line.startsWith("#")) || "",
+        valid: errors.length === 0,
+        errors,
+      });
+    }
+  } catch (error: any) {
+    if (options.json) {
+      console.log(JSON.stringify({ valid: false, error: error.message }, null, 2));
+    } else {
+      Logger.error(`校验提交信息失败：${error.message || error}`);
+    }
+    process.exit(EXIT_ERROR);
+  }
+
+  const invalid = results.filter((result) => !result.valid);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({ valid: invalid.length === 0, results }, null, 2)
+    );
+  } else {
+    for (const result of results) {
+      const label = result.hash ? `${result.hash.slice(0, 7)} ` : "";
+      if (result.valid) {
+        console.log(chalk.green(`✔ ${label}${result.header}`));
+        continue;
+      }
+      console.log(chalk.red(`✖ ${label}${result.header}`));
+      for (const error of result.errors) {
+        console.log(chalk.red(`    - ${error}`));
+      }
+    }
+
+    if (invalid.length > 0) {
+      Logger.error(
+        `${invalid.length}/${results.length} 条提交信息不符合规范，可使用 git-pro commit 重新生成`
+      );
+    } else if (results.length === 0) {
+      Logger.info("没有需要校验的提交");
+    } else {
+      Logger.success(`${results.length} 条提交信息均符合规范`);
+    }
+  }
+
+  if (invalid.length > 0) {
+    process.exit(EXIT_INVALID);
+  }
+}
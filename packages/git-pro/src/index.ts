@@ -1,32 +1,125 @@
 #!/usr/bin/env node
-import { program } from "commander";
+import { program, Command } from "commander";
 import { commitCommand } from "./commands/commit";
 import { tagCommand } from "./commands/tag";
 import { mergeTestCommand } from "./commands/merge-test";
 import { aiCommitCommand } from "./commands/ai-commit";
+import { aiStatsCommand } from "./commands/ai-stats";
+import { lintCommand } from "./commands/lint";
+import {
+  hooksInstallCommand,
+  hooksUpdateCommand,
+  hooksUninstallCommand,
+  hooksPrepareCommitMsgCommand,
+} from "./commands/hooks";
+import {
+  configGetCommand,
+  configSetCommand,
+  configUnsetCommand,
+  configListCommand,
+  configPathCommand,
+} from "./commands/config";
+import {
+  authLoginCommand,
+  authLogoutCommand,
+  authStatusCommand,
+} from "./commands/auth";
+import { settingsService } from "./services/settings";
+import { Logger } from "./utils/logger";
+
+/** 收集可重复传入的参数 */
+function collect(value: string, previous: string[]): string[] {
+  return previous.concat([value]);
+}
+
+/**
+ * 为提交类命令注册非交互参数
+ */
+function withCommitOptions(command: Command): Command {
+  return command
+    .option("-y, --yes", "跳过所有交互提示，直接提交")
+    .option("-t, --type <type>", "提交类型，如 feat 或 ✨ feat")
+    .option("-s, --scope <scope>", "修改范围")
+    .option("-m, --subject <subject>", "简短描述")
+    .option("-b, --body <body>", "详细描述")
+    .option("--ai", "使用 AI 生成提交信息（不弹出提示）");
+}
 
 program
   .name("git-pro")
   .description("Git workflow enhancement tool")
-  .version("1.0.0");
+  .version("1.0.0")
+  .option(
+    "-c, --config <key=value>",
+    "临时覆盖配置项（优先级最高），可重复传入",
+    collect,
+    []
+  )
+  .hook("preAction", () => {
+    try {
+      settingsService.setCliOverrides(program.opts().config);
+    } catch (error: any) {
+      Logger.error(error.message);
+      process.exit(1);
+    }
+  });
 
-program
-  .command("commit")
+withCommitOptions(program.command("commit"))
   .description("提交代码，默认使用AI辅助提交")
   .action(aiCommitCommand);
 
-program
-  .command("conventional-commit")
+withCommitOptions(program.command("conventional-commit"))
   .alias("cc")
   .description("使用 commitizen 规范化提交代码")
   .action(commitCommand);
 
-program
-  .command("ai-commit")
+withCommitOptions(program.command("ai-commit"))
   .alias("aic")
   .description("使用 DeepSeek AI 辅助生成提交信息")
   .action(aiCommitCommand);
 
+program
+  .command("ai-stats")
+  .description("查看 AI 生成提交信息的采用情况")
+  .action(aiStatsCommand);
+
+program
+  .command("lint")
+  .description(
+    "按 commitizen 配置校验提交信息（退出码：0 通过，1 不合规，2 执行错误）"
+  )
+  .option("-e, --edit [file]", "校验提交信息文件，默认 .git/COMMIT_EDITMSG")
+  .option("--from <sha>", "校验 <sha>..--to 范围内的提交")
+  .option("--to <sha>", "范围终点，默认 HEAD")
+  .option("--json", "以 JSON 格式输出结果")
+  .action(lintCommand);
+
+const hooks = program
+  .command("hooks")
+  .description("管理 prepare-commit-msg（AI 预填）与 commit-msg（校验）钩子");
+
+hooks
+  .command("install")
+  .description("安装钩子，与已有钩子及 husky 共存")
+  .option("--only <hook>", "只安装 prepare-commit-msg 或 commit-msg")
+  .action(hooksInstallCommand);
+
+hooks
+  .command("update")
+  .description("更新已安装的钩子（升级 git-pro 或 Node.js 后执行）")
+  .action(hooksUpdateCommand);
+
+hooks
+  .command("uninstall")
+  .description("移除钩子中的 git-pro 部分，恢复原有钩子")
+  .option("--only <hook>", "只卸载 prepare-commit-msg 或 commit-msg")
+  .action(hooksUninstallCommand);
+
+// 由 prepare-commit-msg 钩子调用
+hooks
+  .command("prepare-commit-msg <file> [source]", { hidden: true })
+  .action(hooksPrepareCommitMsgCommand);
+
 program.command("tag").description("创建新的版本标签").action(tagCommand);
 
 program
@@ -34,4 +127,56 @@ program
   .description("将当前分支合并到test分支并推送")
   .action(mergeTestCommand);
 
+const config = program
+  .command("config")
+  .description("查看和修改 git-pro 配置");
+
+config
+  .command("get <key>")
+  .description("读取合并后的配置项，如 model.default")
+  .action(configGetCommand);
+
+config
+  .command("set <key> <value>")
+  .description("写入配置项，默认写入仓库级 .git-pro.json")
+  .option("-g, --global", "写入用户级配置 ~/.git-pro/config.json")
+  .action(configSetCommand);
+
+config
+  .command("unset <key>")
+  .description("删除配置项")
+  .option("-g, --global", "操作用户级配置 ~/.git-pro/config.json")
+  .action(configUnsetCommand);
+
+config
+  .command("list")
+  .description("列出合并后的全部配置及其来源")
+  .action(configListCommand);
+
+config
+  .command("path")
+  .description("显示各层配置文件路径")
+  .action(configPathCommand);
+
+const auth = program.command("auth").description("管理 AI 服务商的 API 密钥");
+
+auth
+  .command("login")
+  .description("保存 API 密钥到系统钥匙串或本地密钥文件(0600)")
+  .option("-p, --provider <name>", "服务商名称，默认为配置中的 api.provider")
+  .option("-k, --key <key>", "直接传入密钥（会留在 shell 历史中，不推荐）")
+  .option("--file", "不使用系统钥匙串，保存到 ~/.git-pro/credentials.json")
+  .action(authLoginCommand);
+
+auth
+  .command("logout")
+  .description("删除已保存的 API 密钥")
+  .option("-p, --provider <name>", "服务商名称，默认为配置中的 api.provider")
+  .action(authLogoutCommand);
+
+auth
+  .command("status")
+  .description("查看各服务商的密钥状态")
+  .action(authStatusCommand);
+
 program.parse();
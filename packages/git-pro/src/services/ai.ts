@@ -1,10 +1,18 @@
 import axios from "axios";
+import { getBytes, getLines, getMessages } from "@cjh0/fetch-event-source";
 import { Logger } from "../utils/logger";
-import { gitService } from "./git";
+import { gitService, CommitMessage } from "./git";
 import { configService } from "./config";
-import * as fs from "fs";
+import {
+  AIProvider,
+  ProviderHttpRequest,
+  createProvider,
+  DEFAULT_PROVIDER,
+} from "./providers";
+import { settingsService, AIConfig } from "./settings";
+import { credentialService, getApiKeyEnvs } from "./credentials";
+import { isPlainObject } from "../utils/object";
 import * as path from "path";
-import * as os from "os";
 
 interface CzConfigForAI {
   types: Array<{
@@ -39,74 +47,36 @@ interface CzConfig {
   subjectLimit?: number;
 }
 
-interface CachedConfig {
-  config: AIConfig;
-  timestamp: number;
-  version?: string;
-  url: string;
-}
-
-interface AIConfig {
-  api: {
-    baseUrl: string;
-    defaultApiKey: string;
-    timeout?: number;
-  };
-  model: {
-    default: string;
-    parameters?: {
-      // 所有API参数都可以通过此配置动态传入
-      // 常用参数示例：
-      enable_thinking?: boolean;
-      temperature?: number;
-      max_tokens?: number;
-      top_p?: number;
-      frequency_penalty?: number;
-      presence_penalty?: number;
-      // 任何其他API参数都可以在这里添加，无需修改代码
-      [key: string]: any;
-    };
-  };
-  prompt: {
-    systemPrompt: string;
-    customPrompt: string;
-    outputFormat: {
-      instruction: string;
-      example: Record<string, string>;
-    };
-  };
-  defaultTypes: Array<{ value: string; name: string }>;
-  defaultScopes: string[];
-  fallback: {
-    type: string;
-    subject: string;
-  };
-  messages: {
-    modelInfo: string;
-    success: string;
-    parseError: string;
-    typeWarning: string;
-  };
+/** 用户取消生成时抛出的错误信息 */
+export const GENERATION_CANCELLED = "用户取消生成";
+
+/** 生成提交信息的选项 */
+export interface GenerateOptions {
+  /** 用于取消生成（如 Ctrl+C） */
+  signal?: AbortSignal;
+  /** 流式输出时每收到一段文本调用一次 */
+  onToken?: (token: string) => void;
+  /** 流式输出结束时调用 */
+  onStreamEnd?: () => void;
+  /**
+   * 响应无法解析或提交类型无效时抛出错误，而不是使用默认提交信息，
+   * 用于无人确认结果的非交互提交
+   */
+  strict?: boolean;
 }
 
 /**
- * SiliconFlow API 服务类 (使用 GLM-4.5 模型)
+ * AI 服务类（通过 providers 适配多家模型接口）
  */
 export class AIService {
   private static instance: AIService;
   private apiKey: string = "";
   private model: string = "";
   private customPrompt: string = "";
+  private providerName: string = "";
   private config: AIConfig | null = null;
-  private readonly configUrl: string = "https://zfile.nmyh.cc/directlink/1/git-pro/ai-config.json";
-  private readonly cacheDir: string;
-  private readonly cacheFilePath: string;
-
-  private constructor() {
-    // 初始化缓存目录路径
-    this.cacheDir = path.join(os.homedir(), '.git-pro');
-    this.cacheFilePath = path.join(this.cacheDir, 'ai-config-cache.json');
-  }
+
+  private constructor() {}
 
   /** 获取实例 */
   public static getInstance(): AIService {
@@ -116,142 +86,77 @@ export class AIService {
     return AIService.instance;
   }
 
-  /** 确保缓存目录存在 */
-  private ensureCacheDir(): void {
-    if (!fs.existsSync(this.cacheDir)) {
-      fs.mkdirSync(this.cacheDir, { recursive: true });
-    }
-  }
+  /** 应用配置 */
+  private applyConfig(): void {
+    if (!this.config) return;
 
-  /** 保存配置到缓存 */
-  private saveConfigToCache(config: AIConfig): void {
-    try {
-      this.ensureCacheDir();
-      const cachedConfig: CachedConfig = {
-        config,
-        timestamp: Date.now(),
-        version: "1.0.0", // 可以根据需要从config中提取版本信息
-        url: this.configUrl
-      };
-      fs.writeFileSync(this.cacheFilePath, JSON.stringify(cachedConfig, null, 2));
-      Logger.info("💾 已保存配置到本地缓存");
-    } catch (error: any) {
-      Logger.warn(`⚠️ 保存配置缓存失败: ${error.message}`);
-    }
+    this.model = this.config.model.default;
+    this.customPrompt = this.config.prompt.customPrompt;
+    this.providerName = (this.config.api.provider || DEFAULT_PROVIDER).toLowerCase();
   }
 
-  /** 从缓存读取配置 */
-  private loadConfigFromCache(): AIConfig | null {
-    try {
-      if (!fs.existsSync(this.cacheFilePath)) {
-        return null;
-      }
-
-      const cacheContent = fs.readFileSync(this.cacheFilePath, 'utf-8');
-      const cachedConfig: CachedConfig = JSON.parse(cacheContent);
-      
-      // 检查缓存是否过期（默认7天）
-      const maxAge = 7 * 24 * 60 * 60 * 1000; // 7天
-      const isExpired = Date.now() - cachedConfig.timestamp > maxAge;
-      
-      if (isExpired) {
-        Logger.warn("⏰ 缓存配置已过期，将尝试重新获取远程配置");
-        return null;
-      }
-
-      Logger.info("📦 已从本地缓存加载配置");
-      return cachedConfig.config;
-    } catch (error: any) {
-      Logger.warn(`⚠️ 读取配置缓存失败: ${error.message}`);
-      return null;
-    }
+  /** 获取当前配置的服务商适配器 */
+  private getProvider(): AIProvider {
+    return createProvider(this.providerName || DEFAULT_PROVIDER);
   }
 
-  /** 从远程加载配置 */
-  private async loadRemoteConfig(): Promise<void> {
-    try {
-      const response = await axios.get(this.configUrl, {
-        timeout: 10000
-      });
-      this.config = response.data;
-      
-      // 保存到缓存
-      if (this.config) {
-        this.saveConfigToCache(this.config);
-      }
-      
-      this.applyConfig();
-      Logger.info("☁️ 已加载远程 AI 配置");
-    } catch (error: any) {
-      throw new Error(`❌ 无法加载远程配置: ${error.message}\n请确保配置服务器 ${this.configUrl} 可访问`);
+  /**
+   * 接口地址：优先使用 api.baseUrl，否则使用服务商的默认地址
+   * 默认地址随服务商切换，避免把密钥发送到其他服务商的地址
+   * @throws {Error} 服务商没有默认地址且未配置 api.baseUrl 时抛出错误
+   */
+  private resolveBaseUrl(provider: AIProvider): string {
+    const baseUrl = this.config?.api.baseUrl || provider.defaultBaseUrl;
+    if (!baseUrl) {
+      throw new Error(
+        `❌ ${provider.name} 没有默认接口地址，请先执行 git-pro config set api.baseUrl <地址>`
+      );
     }
+    return baseUrl;
   }
 
-  /** 应用配置 */
-  private applyConfig(): void {
-    if (!this.config) return;
+  /**
+   * 加载分层配置（内置默认值、远程、用户、仓库、环境变量、命令行）
+   */
+  private async loadConfig(): Promise<void> {
+    this.config = await settingsService.load();
+    this.applyConfig();
 
-    if (!this.apiKey) {
-      this.apiKey = this.config.api.defaultApiKey;
-    }
-    if (!this.model) {
-      this.model = this.config.model.default;
-    }
-    if (!this.customPrompt) {
-      this.customPrompt = this.config.prompt.customPrompt;
-    }
+    // 密钥由凭据服务按服务商读取，不再来自配置文件
+    const credential = credentialService.getApiKey(this.providerName);
+    this.apiKey = credential ? credential.key : "";
   }
 
   /**
-   * 从环境变量读取配置（支持缓存回退）
+   * 读取提交差异和配置，生成提交信息
    */
-  private async loadConfigFromEnv(): Promise<void> {
-    try {
-      // 优先加载远程配置
-      await this.loadRemoteConfig();
-    } catch (error: any) {
-      Logger.warn("☁️ 远程配置加载失败，尝试使用本地缓存");
-      
-      // 远程配置失败时，尝试从缓存加载
-      const cachedConfig = this.loadConfigFromCache();
-      
-      if (cachedConfig) {
-        this.config = cachedConfig;
-        this.applyConfig();
-        Logger.info("🔄 已使用本地缓存配置作为回退方案");
-      } else {
-        // 如果缓存也没有，抛出原始错误
-        Logger.error("❌ 远程配置和本地缓存都不可用");
-        throw error;
-      }
-    }
-
-    // 环境变量配置优先级最高，可覆盖远程/缓存配置
-    const apiKey = process.env.SILICONFLOW_API_KEY;
-    const model = process.env.AI_MODEL;
-    const customPrompt = process.env.AI_PROMPT;
-
-    if (apiKey) this.apiKey = apiKey;
-    if (model) this.model = model;
-    if (customPrompt) this.customPrompt = customPrompt;
+  public async generateCommitMessage(
+    options: GenerateOptions = {}
+  ): Promise<CommitMessage> {
+    const [message] = await this.generateCommitMessages(1, undefined, options);
+    return message;
   }
 
   /**
-   * 读取提交差异和配置，生成提交信息
+   * 生成多个候选提交信息
+   * @param count 候选数量
+   * @param guidance 用户补充的生成要求，如“提及数据库迁移”
+   * @param options 取消信号与流式输出回调
    */
-  public async generateCommitMessage(): Promise<{
-    type: string;
-    scope?: string;
-    subject: string;
-    body?: string;
-  }> {
+  public async generateCommitMessages(
+    count: number,
+    guidance?: string,
+    options: GenerateOptions = {}
+  ): Promise<CommitMessage[]> {
     try {
-      // 加载远程配置和环境变量配置
-      await this.loadConfigFromEnv();
+      // 加载分层配置
+      await this.loadConfig();
 
-      // 检查配置是否成功加载
-      if (!this.config || !this.apiKey) {
-        throw new Error("❌ AI 配置未成功加载，请检查配置服务器是否可访问");
+      // 检查密钥是否已配置（本地服务商可不提供密钥）
+      if (!this.config || (!this.apiKey && this.getProvider().requiresApiKey)) {
+        throw new Error(
+          `❌ 未找到 ${this.providerName} 的 API 密钥，请先执行 git-pro auth login 或设置环境变量 ${getApiKeyEnvs(this.providerName)[0]}（AI_API_KEY 对所有服务商生效）`
+        );
       }
 
       // 获取暂存区差异
@@ -261,7 +166,7 @@ export class AIService {
       const config = await this.getCzConfigForAI();
 
       // 构建提示词
-      const prompt = this.buildPrompt(diffSummary, config);
+      const prompt = this.buildPrompt(diffSummary, config, count, guidance);
 
       // 显示正在使用的模型
       if (this.config) {
@@ -270,7 +175,7 @@ export class AIService {
       }
 
       // 调用 API 生成提交信息
-      const response = await this.callDeepSeekAPI(prompt);
+      const response = await this.callDeepSeekAPI(prompt, options);
 
       if (this.config) {
         const successMsg = this.config.messages.success.replace("{model}", this.model);
@@ -278,18 +183,28 @@ export class AIService {
       }
 
       // 解析返回的提交信息
-      return this.parseResponse(response, config);
+      return this.parseResponse(response, config, options.strict).slice(
+        0,
+        Math.max(count, 1)
+      );
     } catch (error: any) {
-      Logger.error(`AI 生成提交信息失败: ${error.message}`);
+      if (error.message !== GENERATION_CANCELLED) {
+        Logger.error(`AI 生成提交信息失败: ${error.message}`);
+      }
       throw error;
     }
   }
 
+  /** 当前使用的服务商与模型 */
+  public getModelInfo(): { provider: string; model: string } {
+    return { provider: this.providerName, model: this.model };
+  }
+
   /**
    * 获取 commitizen 配置供 AI 使用
    */
   private async getCzConfigForAI(): Promise<CzConfigForAI> {
-    // 直接使用远程配置中的默认类型和作用域
+    // 使用分层配置中的默认类型和作用域
     if (!this.config) {
       throw new Error("❌ 配置未加载，无法获取 commitizen 配置");
     }
@@ -304,19 +219,6 @@ export class AIService {
     };
   }
 
-  /**
-   * 提供默认的 commitizen 配置
-   */
-  private getDefaultCzConfig(): CzConfigForAI {
-    if (!this.config) {
-      throw new Error("❌ 配置未加载，无法获取 commitizen 配置");
-    }
-    return {
-      types: this.config.defaultTypes,
-      scopes: this.config.defaultScopes,
-    };
-  }
-
   /**
    * 加载本地配置文件
    */
@@ -331,7 +233,7 @@ export class AIService {
       delete require.cache[absolutePath];
       return require(absolutePath);
     } catch (error: any) {
-      Logger.warn(`读取本地配置失败: ${error.message}，将使用远程配置`);
+      Logger.warn(`读取本地配置失败: ${error.message}，将使用默认配置`);
       return null;
     }
   }
@@ -339,7 +241,12 @@ export class AIService {
   /**
    * 构建提示词
    */
-  private buildPrompt(diffSummary: string, config: CzConfigForAI): string {
+  private buildPrompt(
+    diffSummary: string,
+    config: CzConfigForAI,
+    count: number = 1,
+    guidance?: string
+  ): string {
     if (!this.config) {
       throw new Error("❌ 配置未加载，无法构建提示词");
     }
@@ -386,128 +293,263 @@ ${this.config.prompt.outputFormat.instruction}
 ${JSON.stringify(this.config.prompt.outputFormat.example, null, 2)}
 `;
 
+    // 多个候选时要求返回数组
+    if (count > 1) {
+      prompt += `\n请给出 ${count} 个侧重点或措辞不同的候选提交信息，以 JSON 数组形式返回，数组中每一项的格式与上面的示例相同。\n`;
+    }
+
     // 添加自定义提示词
     if (this.customPrompt) {
       prompt += `\n额外说明: ${this.customPrompt}`;
     }
 
+    // 添加用户重新生成时补充的要求
+    if (guidance) {
+      prompt += `\n用户补充要求: ${guidance}`;
+    }
+
     return prompt;
   }
 
   /**
-   * 调用 SiliconFlow API (GLM-4.5模型)
+   * 通过配置的服务商调用模型接口，返回统一的文本输出
+   * 服务商支持且运行环境有 fetch 时使用流式输出
    */
-  private async callDeepSeekAPI(prompt: string): Promise<string> {
+  private async callDeepSeekAPI(
+    prompt: string,
+    options: GenerateOptions = {}
+  ): Promise<string> {
     if (!this.config) {
       throw new Error("❌ 配置未加载，无法调用 API");
     }
     try {
-      const url = this.config.api.baseUrl;
-      // 直接使用API密钥，不需要解码
-      const apiKey = this.apiKey;
+      const provider = this.getProvider();
+      const stream =
+        this.config.api.stream !== false &&
+        !!provider.extractStreamDelta &&
+        typeof fetch === "function";
 
-      // 构建基础请求参数（核心参数，不可覆盖）
-      const requestBody: any = {
-        model: this.model,
-        messages: [{ role: "user", content: prompt }]
-      };
-
-      // 设置默认参数
-      const defaultParams = {
-        temperature: 0.3,
-        max_tokens: 2000,
-        top_p: 0.7
-      };
-
-      // 从配置中获取模型参数
+      // 从配置中获取模型参数（内置默认值已在分层配置中合并）
       const modelParams = this.config.model.parameters || {};
 
-      // 合并参数：默认参数 + 配置参数（配置参数优先级更高）
-      Object.assign(requestBody, defaultParams, modelParams);
-
-      const response = await axios.post(
-        url,
-        requestBody,
-        {
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
-          timeout: this.config.api.timeout
-        }
-      );
+      // 由服务商适配器把通用参数映射为各自的请求结构
+      const request = provider.buildRequest({
+        baseUrl: this.resolveBaseUrl(provider),
+        apiKey: this.apiKey,
+        model: this.model,
+        prompt,
+        parameters: modelParams,
+        extra: {
+          apiVersion: this.config.api.apiVersion,
+          anthropicVersion: this.config.api.anthropicVersion,
+        },
+        stream,
+      });
 
-      if (
-        !response.data ||
-        !response.data.choices ||
-        !response.data.choices[0]
-      ) {
-        throw new Error("API 返回无效响应");
+      if (stream) {
+        return await this.requestStream(provider, request, options);
       }
 
-      return response.data.choices[0].message.content;
+      const response = await axios.post(request.url, request.body, {
+        headers: request.headers,
+        timeout: this.config.api.timeout,
+        signal: options.signal,
+      });
+
+      return provider.extractText(response.data);
     } catch (error: any) {
+      if (options.signal?.aborted) {
+        throw new Error(GENERATION_CANCELLED);
+      }
+      // 响应内容可能回显请求头或密钥，抛出前统一脱敏
       if (error.response) {
         throw new Error(
-          `API 请求失败: ${error.response.status} - ${JSON.stringify(
-            error.response.data
-          )}`
+          Logger.redact(
+            `API 请求失败: ${error.response.status} - ${JSON.stringify(
+              error.response.data
+            )}`
+          )
         );
       }
-      throw error;
+      throw new Error(Logger.redact(error.message || String(error)));
     }
   }
 
   /**
-   * 解析 API 响应
+   * 以 SSE 流式请求模型，边接收边回调，返回拼接后的完整文本
+   * api.timeout 作为空闲超时：超过该时间未收到新数据即中止请求
    */
-  private parseResponse(
-    response: string,
-    config: CzConfigForAI
-  ): {
-    type: string;
-    scope?: string;
-    subject: string;
-    body?: string;
-  } {
+  private async requestStream(
+    provider: AIProvider,
+    request: ProviderHttpRequest,
+    options: GenerateOptions
+  ): Promise<string> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort);
+
+    const timeout = this.config?.api.timeout;
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+    const resetTimer = () => {
+      if (!timeout) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout);
+    };
+
+    let text = "";
+    let finished = false;
+    const onChunk = getLines(
+      getMessages(
+        () => {},
+        () => {},
+        (message) => {
+          if (finished) return;
+          const delta = provider.extractStreamDelta!(message);
+          if (delta === null) {
+            finished = true;
+            return;
+          }
+          if (delta) {
+            text += delta;
+            options.onToken?.(delta);
+          }
+        }
+      )
+    );
+
     try {
-      // 尝试提取 JSON 部分
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      const jsonStr = jsonMatch ? jsonMatch[0] : response;
+      resetTimer();
+      const response = await fetch(request.url, {
+        method: "POST",
+        headers: request.headers,
+        body: JSON.stringify(request.body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(
+          `API 请求失败: ${response.status} - ${await response.text()}`
+        );
+      }
 
-      const result = JSON.parse(jsonStr);
+      await getBytes(response.body, (chunk) => {
+        resetTimer();
+        onChunk(chunk);
+      });
 
-      // 去除 type 中可能存在的冒号
-      if (result.type && result.type.includes(':')) {
-        result.type = result.type.replace(':', '').trim();
+      return text;
+    } catch (error: any) {
+      if (timedOut) {
+        throw new Error(`API 请求超时：${timeout}ms 内未收到新数据`);
       }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      options.onStreamEnd?.();
+    }
+  }
 
-      // 验证提交类型是否有效
-      const validTypes = config.types.map((t) => t.value);
-      if (!validTypes.includes(result.type)) {
-        if (this.config) {
-          const warningMsg = this.config.messages.typeWarning.replace("{type}", result.type);
-          Logger.warn(warningMsg);
-          result.type = this.config.fallback.type;
+  /**
+   * 解析 API 响应，支持单个对象或对象数组
+   * @param strict 为 true 时解析失败直接抛出错误，不使用默认提交信息
+   */
+  private parseResponse(
+    response: string,
+    config: CzConfigForAI,
+    strict: boolean = false
+  ): CommitMessage[] {
+    let results: any[] | null = null;
+    try {
+      // 尝试提取 JSON 部分（优先数组）
+      const arrayMatch = response.match(/\[[\s\S]*\]/);
+      const objectMatch = response.match(/\{[\s\S]*\}/);
+
+      // 数组出现在对象之前时才视为候选列表，避免误取对象内部的数组字段
+      const isArrayFirst =
+        arrayMatch &&
+        (!objectMatch || (arrayMatch.index ?? 0) < (objectMatch.index ?? 0));
+
+      if (arrayMatch && isArrayFirst) {
+        try {
+          const parsed = JSON.parse(arrayMatch[0]);
+          if (
+            Array.isArray(parsed) &&
+            parsed.length > 0 &&
+            parsed.every((item) => isPlainObject(item))
+          ) {
+            results = parsed;
+          }
+        } catch {
+          // 数组解析失败时按单个对象处理
         }
       }
-
-      return {
-        type: result.type,
-        scope: result.scope || undefined,
-        subject: result.subject || this.config?.fallback.subject,
-        body: result.body || undefined,
-      };
-    } catch (error) {
+      if (!results) {
+        results = [JSON.parse(objectMatch ? objectMatch[0] : response)];
+      }
+      if (!results.every((result) => isPlainObject(result))) {
+        throw new Error("响应不是 JSON 对象");
+      }
+    } catch (error: any) {
+      if (strict) {
+        throw new Error(`无法解析 AI 响应，未生成提交信息: ${error.message}`);
+      }
       if (this.config) {
         Logger.error(this.config.messages.parseError);
-        return {
-          type: this.config.fallback.type,
-          subject: this.config.fallback.subject,
-        };
+        return [
+          {
+            type: this.config.fallback.type,
+            subject: this.config.fallback.subject,
+          },
+        ];
       }
       throw error;
     }
+
+    return results.map((result) => this.normalizeResult(result, config, strict));
+  }
+
+  /**
+   * 规范化单条 AI 结果
+   * @param strict 为 true 时类型无效或缺少描述直接抛出错误，不使用默认值
+   */
+  private normalizeResult(
+    result: any,
+    config: CzConfigForAI,
+    strict: boolean = false
+  ): CommitMessage {
+    // 去除 type 中可能存在的冒号
+    if (result.type && result.type.includes(':')) {
+      result.type = result.type.replace(':', '').trim();
+    }
+
+    // 验证提交类型是否有效
+    const validTypes = config.types.map((t) => t.value);
+    if (!validTypes.includes(result.type)) {
+      if (strict) {
+        throw new Error(`AI 返回的提交类型 ${result.type} 无效`);
+      }
+      if (this.config) {
+        const warningMsg = this.config.messages.typeWarning.replace("{type}", result.type);
+        Logger.warn(warningMsg);
+        result.type = this.config.fallback.type;
+      }
+    }
+
+    if (strict && !result.subject) {
+      throw new Error("AI 返回的提交信息缺少 subject");
+    }
+
+    return {
+      type: result.type,
+      scope: result.scope || undefined,
+      subject: result.subject || this.config?.fallback.subject,
+      body: result.body || undefined,
+    };
   }
 }
 
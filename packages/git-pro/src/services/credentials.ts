@@ -0,0 +1,332 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { Logger } from "../utils/logger";
+
+/** 凭据来源 */
+export type CredentialSource = "env" | "keyring" | "file";
+
+/** 钥匙串中使用的服务名 */
+const KEYRING_SERVICE = "git-pro";
+
+/** 对任何服务商都生效的密钥环境变量 */
+const GENERIC_API_KEY_ENV = "AI_API_KEY";
+
+/** 仅对特定服务商生效的旧环境变量（默认的 openai 服务商指向 SiliconFlow） */
+const LEGACY_API_KEY_ENVS: Record<string, string> = {
+  openai: "SILICONFLOW_API_KEY",
+};
+
+/**
+ * 可提供指定服务商密钥的环境变量，按优先级排列：
+ * GIT_PRO_<服务商>_API_KEY（如 GIT_PRO_ANTHROPIC_API_KEY）只对该服务商生效，
+ * AI_API_KEY 对当前使用的任何服务商生效
+ */
+export function getApiKeyEnvs(provider: string): string[] {
+  const scoped = `GIT_PRO_${provider.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_API_KEY`;
+  const legacy = LEGACY_API_KEY_ENVS[provider.toLowerCase()];
+  return [scoped, GENERIC_API_KEY_ENV, ...(legacy ? [legacy] : [])];
+}
+
+/**
+ * 系统钥匙串后端
+ */
+interface KeyringBackend {
+  readonly name: string;
+  isAvailable(): boolean;
+  get(account: string): string | null;
+  set(account: string, secret: string): void;
+  delete(account: string): boolean;
+}
+
+/** 执行外部命令，失败时返回 null */
+function run(command: string, args: string[], input?: string): string | null {
+  try {
+    return execFileSync(command, args, {
+      input,
+      stdio: ["pipe", "pipe", "ignore"],
+      encoding: "utf-8",
+    });
+  } catch {
+    return null;
+  }
+}
+
+/** 按 security -i 的规则为参数加引号 */
+function quote(value: string): string {
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+/** 命令是否存在于 PATH 中 */
+function hasCommand(command: string): boolean {
+  return run(process.platform === "win32" ? "where" : "which", [command]) !== null;
+}
+
+/**
+ * macOS 钥匙串（security 命令）
+ */
+class MacKeychainBackend implements KeyringBackend {
+  readonly name = "macOS Keychain";
+
+  isAvailable(): boolean {
+    return process.platform === "darwin" && hasCommand("security");
+  }
+
+  get(account: string): string | null {
+    const output = run("security", [
+      "find-generic-password",
+      "-s",
+      KEYRING_SERVICE,
+      "-a",
+      account,
+      "-w",
+    ]);
+    return output ? output.trim() : null;
+  }
+
+  set(account: string, secret: string): void {
+    // security -i 从标准输入读取命令，避免密钥出现在进程参数中（ps 可见）
+    const output = run(
+      "security",
+      ["-i"],
+      [
+        "add-generic-password",
+        "-U",
+        "-s",
+        quote(KEYRING_SERVICE),
+        "-a",
+        quote(account),
+        "-w",
+        quote(secret),
+      ].join(" ") + "\n"
+    );
+    if (output === null) {
+      throw new Error("写入 macOS 钥匙串失败");
+    }
+  }
+
+  delete(account: string): boolean {
+    return (
+      run("security", [
+        "delete-generic-password",
+        "-s",
+        KEYRING_SERVICE,
+        "-a",
+        account,
+      ]) !== null
+    );
+  }
+}
+
+/**
+ * Linux Secret Service（secret-tool 命令，GNOME Keyring / KWallet）
+ */
+class SecretToolBackend implements KeyringBackend {
+  readonly name = "Secret Service";
+
+  isAvailable(): boolean {
+    return process.platform === "linux" && hasCommand("secret-tool");
+  }
+
+  get(account: string): string | null {
+    const output = run("secret-tool", [
+      "lookup",
+      "service",
+      KEYRING_SERVICE,
+      "account",
+      account,
+    ]);
+    return output ? output.trim() : null;
+  }
+
+  set(account: string, secret: string): void {
+    // 通过标准输入传递密钥，避免出现在进程参数中
+    const output = run(
+      "secret-tool",
+      [
+        "store",
+        `--label=git-pro (${account})`,
+        "service",
+        KEYRING_SERVICE,
+        "account",
+        account,
+      ],
+      secret
+    );
+    if (output === null) {
+      throw new Error("写入 Secret Service 失败");
+    }
+  }
+
+  delete(account: string): boolean {
+    return (
+      run("secret-tool", [
+        "clear",
+        "service",
+        KEYRING_SERVICE,
+        "account",
+        account,
+      ]) !== null
+    );
+  }
+}
+
+/**
+ * 凭据服务
+ * 密钥优先从环境变量读取（见 getApiKeyEnvs），其次是系统钥匙串，最后是权限为 0600 的本地密钥文件
+ */
+export class CredentialService {
+  private static instance: CredentialService;
+  private readonly filePath: string;
+  private readonly backends: KeyringBackend[] = [
+    new MacKeychainBackend(),
+    new SecretToolBackend(),
+  ];
+
+  private constructor() {
+    this.filePath = path.join(os.homedir(), ".git-pro", "credentials.json");
+  }
+
+  /** 获取实例 */
+  public static getInstance(): CredentialService {
+    if (!CredentialService.instance) {
+      CredentialService.instance = new CredentialService();
+    }
+    return CredentialService.instance;
+  }
+
+  /** 密钥文件路径 */
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  /** 当前系统可用的钥匙串，不可用时返回 null */
+  public getKeyring(): KeyringBackend | null {
+    return this.backends.find((backend) => backend.isAvailable()) || null;
+  }
+
+  /**
+   * 读取指定服务商的密钥，读取到的密钥会注册到日志脱敏列表
+   */
+  public getApiKey(
+    provider: string
+  ): { key: string; source: CredentialSource } | null {
+    const result = this.lookup(provider);
+    if (result) {
+      Logger.registerSecret(result.key);
+    }
+    return result;
+  }
+
+  /**
+   * 保存密钥
+   * @param preferFile 为 true 时跳过钥匙串，直接写入密钥文件
+   * @returns 实际保存的位置
+   */
+  public setApiKey(
+    provider: string,
+    key: string,
+    preferFile: boolean = false
+  ): CredentialSource {
+    Logger.registerSecret(key);
+    const keyring = preferFile ? null : this.getKeyring();
+    if (keyring) {
+      try {
+        keyring.set(provider, key);
+        // 钥匙串写入成功后清理文件中的旧密钥
+        this.deleteFromFile(provider);
+        return "keyring";
+      } catch (error: any) {
+        Logger.warn(`${error.message}，将改为保存到密钥文件`);
+      }
+    }
+    const credentials = this.readFile();
+    credentials[provider] = key;
+    this.writeFile(credentials);
+    return "file";
+  }
+
+  /**
+   * 删除密钥（钥匙串与密钥文件中的都会删除）
+   * @returns 是否删除了任何密钥
+   */
+  public deleteApiKey(provider: string): boolean {
+    const keyring = this.getKeyring();
+    const fromKeyring = keyring ? keyring.delete(provider) : false;
+    const fromFile = this.deleteFromFile(provider);
+    return fromKeyring || fromFile;
+  }
+
+  /** 按优先级查找密钥 */
+  private lookup(
+    provider: string
+  ): { key: string; source: CredentialSource } | null {
+    for (const name of getApiKeyEnvs(provider)) {
+      const value = process.env[name];
+      if (value) return { key: value, source: "env" };
+    }
+
+    const keyring = this.getKeyring();
+    const fromKeyring = keyring ? keyring.get(provider) : null;
+    if (fromKeyring) return { key: fromKeyring, source: "keyring" };
+
+    const fromFile = this.readFile()[provider];
+    if (fromFile) return { key: fromFile, source: "file" };
+
+    return null;
+  }
+
+  /** 从密钥文件删除指定服务商的密钥 */
+  private deleteFromFile(provider: string): boolean {
+    const credentials = this.readFile();
+    if (!(provider in credentials)) {
+      return false;
+    }
+    delete credentials[provider];
+    this.writeFile(credentials);
+    return true;
+  }
+
+  /** 读取密钥文件，权限过宽时自动收紧为 0600 */
+  private readFile(): Record<string, string> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+    try {
+      if (process.platform !== "win32") {
+        const mode = fs.statSync(this.filePath).mode & 0o777;
+        if (mode & 0o077) {
+          Logger.warn(`密钥文件权限过宽(${mode.toString(8)})，已修改为 600`);
+          fs.chmodSync(this.filePath, 0o600);
+        }
+      }
+      return JSON.parse(fs.readFileSync(this.filePath, "utf-8")) || {};
+    } catch (error: any) {
+      Logger.warn(`读取密钥文件失败: ${error.message}`);
+      return {};
+    }
+  }
+
+  /** 写入密钥文件，权限固定为 0600 */
+  private writeFile(credentials: Record<string, string>): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(this.filePath, JSON.stringify(credentials, null, 2) + "\n", {
+      mode: 0o600,
+    });
+    // writeFileSync 的 mode 仅在新建文件时生效
+    fs.chmodSync(this.filePath, 0o600);
+  }
+}
+
+/**
+ * 掩码显示密钥，仅保留首尾少量字符
+ */
+export function maskSecret(secret: string): string {
+  if (secret.length <= 10) {
+    return "****";
+  }
+  return `${secret.slice(0, 3)}****${secret.slice(-4)}`;
+}
+
+export const credentialService = CredentialService.getInstance();
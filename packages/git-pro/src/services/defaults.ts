@@ -0,0 +1,76 @@
+import type { GitProConfig } from "./settings";
+
+/** 默认提交类型（与 .cz-config 的 types 结构一致） */
+export const DEFAULT_COMMIT_TYPES: Array<{ value: string; name: string }> = [
+  { value: "🎉 init", name: "🎉 init: 初始化" },
+  { value: "✨ feat", name: "✨ feat: 新功能" },
+  { value: "🐞 fix", name: "🐞 fix: 修复bug" },
+  { value: "💡 perf", name: "💡 perf: 改进优化相关,比如提升性能、体验" },
+  { value: "🚧 wip", name: "🚧 wip: 正在进行中的工作" },
+  { value: "🚨 test", name: "🚨 test: 测试，实验" },
+  { value: "🔧 chore", name: "🔧 chore: 构建/工程依赖/工具" },
+  {
+    value: "💄 style",
+    name: "💄 style: 代码的样式美化(标记、空白、格式化、缺少分号……)",
+  },
+  { value: "🔖 release", name: "🔖 release: 发布版本" },
+  { value: "🚚 move", name: "🚚 move: 移动或删除文件" },
+  { value: "⏪ revert", name: "⏪ revert: 回退" },
+  { value: "🔀 merge", name: "🔀 merge: 合并分支" },
+  { value: "📝 docs", name: "📝 docs: 文档变更" },
+];
+
+/**
+ * 内置默认配置
+ * 作为配置分层的最底层，无需联网即可使用
+ */
+export const DEFAULT_SETTINGS: GitProConfig = {
+  api: {
+    provider: "openai",
+    timeout: 60000,
+    stream: true,
+  },
+  model: {
+    default: "zai-org/GLM-4.5",
+    parameters: {
+      temperature: 0.3,
+      max_tokens: 2000,
+      top_p: 0.7,
+    },
+  },
+  prompt: {
+    systemPrompt:
+      "你是一个资深的前端工程师，擅长根据代码变更编写清晰、规范的 Git 提交信息。请使用简体中文。",
+    customPrompt: "",
+    outputFormat: {
+      instruction: "请严格按照以下 JSON 格式返回结果，不要输出任何其他内容:",
+      example: {
+        type: "✨ feat",
+        scope: "用户模块",
+        subject: "新增用户登录功能",
+        body: "实现账号密码登录，并增加登录状态校验",
+      },
+    },
+  },
+  defaultTypes: DEFAULT_COMMIT_TYPES,
+  defaultScopes: ["项目", ""],
+  fallback: {
+    type: "🔧 chore",
+    subject: "更新代码",
+  },
+  diff: {
+    tokenBudget: 6000,
+    ignore: [],
+    collapse: [],
+  },
+  candidates: {
+    count: 3,
+    log: true,
+  },
+  messages: {
+    modelInfo: "🤖 正在使用 {model} 生成提交信息...",
+    success: "✅ {model} 已生成提交信息",
+    parseError: "解析 AI 响应失败，将使用默认提交信息",
+    typeWarning: "AI 返回的提交类型 {type} 无效，将使用默认类型",
+  },
+};
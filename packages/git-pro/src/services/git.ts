@@ -1,10 +1,22 @@
-import simpleGit, { SimpleGit } from "simple-git";
+import simpleGit, { SimpleGit, StatusResult } from "simple-git";
 import chalk from "chalk";
 import { Logger } from "../utils/logger";
 import inquirer from "inquirer";
 import { configService } from "./config";
 import path from "path";
+import * as fs from "fs";
+import * as os from "os";
 import Table from "cli-table3";
+import { DEFAULT_COMMIT_TYPES } from "./defaults";
+import { settingsService } from "./settings";
+import {
+  DEFAULT_COLLAPSE_PATTERNS,
+  DiffHunk,
+  estimateTokens,
+  matchesAny,
+  parseHunks,
+  scoreHunk,
+} from "../utils/diff";
 
 interface FileChanges {
   additions: number;
@@ -44,6 +56,34 @@ interface CzConfig {
   subjectLimit?: number;
 }
 
+/** 提交信息结构 */
+export interface CommitMessage {
+  type: string;
+  scope?: string;
+  subject: string;
+  body?: string;
+  breaking?: string;
+  issues?: string;
+}
+
+/** 不做格式校验的提交（合并、回滚及 fixup!/squash!/amend!） */
+const SKIPPED_COMMIT_PATTERN = /^(Merge |Revert "|fixup! |squash! |amend! )/;
+
+/** 提交标题格式：<类型>(<范围>)!: <描述> */
+const COMMIT_HEADER_PATTERN = /^([^():]+?)(?:\(([^()]*)\))?(!)?: (.*)$/;
+
+/** 规范的破坏性变更脚注（区分大小写） */
+const BREAKING_FOOTER_PATTERN = /^BREAKING[ -]CHANGE: /;
+
+/** 脚注行：<token>: <值> 或 <token> #<值>，token 中的空格需写作 -（BREAKING CHANGE 除外） */
+const FOOTER_TOKEN_PATTERN = /^(?:BREAKING CHANGE|[\w-]+)(?:: | #)/;
+
+/** 脚注中疑似破坏性变更的写法（大小写、空格不规范） */
+const BREAKING_FOOTER_LIKE_PATTERN = /^breaking[\s_-]*changes?\s*:/i;
+
+/** git 编辑器中 --verbose 差异前的剪刀线 */
+const SCISSORS_LINE = "# ------------------------ >8 ------------------------";
+
 interface ChangeStats {
   totalLines: number;
   addedFiles: StagedFile[];
@@ -71,7 +111,8 @@ export class GitService {
     if (!configPath) {
       // 如果找不到配置文件，使用默认配置
       Logger.info("未找到配置文件，将使用默认配置");
-      return this.getDefaultConfig();
+      this.config = this.getDefaultConfig();
+      return this.config;
     }
 
     try {
@@ -90,24 +131,7 @@ export class GitService {
    */
   private getDefaultConfig(): CzConfig {
     return {
-      types: [
-        { value: "🎉 init", name: "🎉 init: 初始化" },
-        { value: "✨ feat", name: "✨ feat: 新功能" },
-        { value: "🐞 fix", name: "🐞 fix: 修复bug" },
-        { value: "💡 perf", name: "💡 perf: 改进优化相关,比如提升性能、体验" },
-        { value: "🚧 wip", name: "🚧 wip: 正在进行中的工作" },
-        { value: "🚨 test", name: "🚨 test: 测试，实验" },
-        { value: "🔧 chore", name: "🔧 chore: 构建/工程依赖/工具" },
-        {
-          value: "💄 style",
-          name: "💄 style: 代码的样式美化(标记、空白、格式化、缺少分号……)",
-        },
-        { value: "🔖 release", name: "🔖 release: 发布版本" },
-        { value: "🚚 move", name: "🚚 move: 移动或删除文件" },
-        { value: "⏪ revert", name: "⏪ revert: 回退" },
-        { value: "🔀 merge", name: "🔀 merge: 合并分支" },
-        { value: "📝 docs", name: "📝 docs: 文档变更" },
-      ],
+      types: DEFAULT_COMMIT_TYPES,
       scopes: ["项目", ""], // 项目模块名可写在这里 方便快捷选择
       skipQuestions: ["body", "footer"],
       messages: {
@@ -170,7 +194,7 @@ export class GitService {
         const changedLines = this.calculateFileChangedLines(diff);
         stagedFiles.push({
           path: file,
-          status: await this.getFileStatus(file),
+          status: this.getFileStatus(file, status),
           diff,
           changedLines,
         });
@@ -187,9 +211,7 @@ export class GitService {
   /**
    * 获取文件状态描述
    */
-  private async getFileStatus(file: string): Promise<string> {
-    const status = await this.git.status();
-
+  private getFileStatus(file: string, status: StatusResult): string {
     // 检查是否是重命名文件
     const isRenamed = status.renamed.some((rename) => rename.to === file);
     if (isRenamed) return "renamed";
@@ -373,11 +395,191 @@ export class GitService {
     console.log(summaryTable.toString());
   }
 
+  /**
+   * 获取工作区中未暂存的改动（包含未跟踪文件），路径相对于仓库根目录
+   */
+  private async getUnstagedFiles(): Promise<StagedFile[]> {
+    const status = await this.git.status();
+    const root = await this.git.revparse(["--show-toplevel"]);
+    const unstagedFiles: StagedFile[] = [];
+
+    for (const file of status.files) {
+      // 未改动或存在合并冲突的文件不参与选择
+      if (file.working_dir === " " || status.conflicted.includes(file.path)) {
+        continue;
+      }
+
+      try {
+        if (file.working_dir === "?") {
+          // 未跟踪文件没有 diff，按文件行数统计新增
+          const content = fs.readFileSync(path.join(root, file.path), "utf8");
+          const lines = content.split("\n").length - (content.endsWith("\n") ? 1 : 0);
+          unstagedFiles.push({
+            path: file.path,
+            status: "new file",
+            changedLines: { additions: content ? lines : 0, deletions: 0 },
+          });
+          continue;
+        }
+
+        const diff = await this.git.diff(["--", path.join(root, file.path)]);
+        unstagedFiles.push({
+          path: file.path,
+          status: file.working_dir === "D" ? "deleted" : "modified",
+          diff,
+          changedLines: this.calculateFileChangedLines(diff),
+        });
+      } catch (error) {
+        Logger.error(`无法获取文件 ${file.path} 的改动信息`);
+      }
+    }
+
+    return unstagedFiles;
+  }
+
+  /**
+   * 交互式选择要暂存的文件，可按片段暂存文件的部分改动
+   */
+  private async selectChangesToStage(unstagedFiles: StagedFile[]): Promise<void> {
+    Logger.info("工作区中有以下未暂存的改动：");
+    await this.displayChangeSummary(
+      await this.calculateChangeStats(unstagedFiles)
+    );
+
+    const { selected } = await inquirer.prompt([
+      {
+        type: "checkbox",
+        name: "selected",
+        message: "请选择要暂存的文件（空格选择，a 全选，回车确认）:",
+        pageSize: 15,
+        choices: unstagedFiles.map((file) => ({
+          name: `${file.path} ${chalk.grey(
+            `+${file.changedLines.additions} -${file.changedLines.deletions}`
+          )}`,
+          value: file.path,
+        })),
+      },
+    ]);
+
+    const chosen = unstagedFiles.filter((file) => selected.includes(file.path));
+    if (chosen.length === 0) return;
+
+    // 只有包含多个片段的文件才需要按片段选择
+    const splittable = chosen.filter(
+      (file) => file.diff && parseHunks(file.diff).length > 1
+    );
+    let byHunk = false;
+    if (splittable.length > 0) {
+      const answers = await inquirer.prompt([
+        {
+          type: "confirm",
+          name: "byHunk",
+          message: `有 ${splittable.length} 个文件包含多处改动，是否按片段选择要暂存的部分？`,
+          default: false,
+        },
+      ]);
+      byHunk = answers.byHunk;
+    }
+
+    const root = await this.git.revparse(["--show-toplevel"]);
+    const wholeFiles: string[] = [];
+    for (const file of chosen) {
+      if (byHunk && splittable.includes(file)) {
+        await this.stageHunks(root, file);
+      } else {
+        wholeFiles.push(path.join(root, file.path));
+      }
+    }
+
+    if (wholeFiles.length > 0) {
+      await this.git.add(wholeFiles);
+    }
+  }
+
+  /**
+   * 展示文件的各个片段，将选中的片段通过 git apply --cached 写入暂存区
+   */
+  private async stageHunks(root: string, file: StagedFile): Promise<void> {
+    const diff = file.diff as string;
+    const hunks = parseHunks(diff);
+
+    console.log(chalk.bold(`\n${file.path}`));
+    hunks.forEach((hunk, index) => {
+      console.log(chalk.cyan(`\n[片段 ${index + 1}]`));
+      for (const line of hunk.text.split("\n")) {
+        if (line.startsWith("@@")) console.log(chalk.cyan(line));
+        else if (line.startsWith("+")) console.log(chalk.green(line));
+        else if (line.startsWith("-")) console.log(chalk.red(line));
+        else console.log(line);
+      }
+    });
+
+    const { selected } = await inquirer.prompt([
+      {
+        type: "checkbox",
+        name: "selected",
+        message: `请选择 ${file.path} 中要暂存的片段:`,
+        pageSize: 15,
+        choices: hunks.map((hunk, index) => ({
+          name: `片段 ${index + 1}: ${hunk.header} ${chalk.grey(
+            `+${hunk.additions} -${hunk.deletions}`
+          )}`,
+          value: index,
+          checked: true,
+        })),
+      },
+    ]);
+
+    if (selected.length === 0) return;
+    if (selected.length === hunks.length) {
+      await this.git.add(path.join(root, file.path));
+      return;
+    }
+
+    // 保留 diff --git / index / --- / +++ 文件头，只拼接选中的片段
+    const patch =
+      diff.slice(0, diff.indexOf("\n@@") + 1) +
+      selected.map((index: number) => hunks[index].text).join("\n") +
+      "\n";
+    const patchFile = path.join(os.tmpdir(), `git-pro-${process.pid}.patch`);
+    fs.writeFileSync(patchFile, patch);
+    try {
+      // 补丁中的路径相对于仓库根目录，在子目录中执行会被 git apply 忽略
+      await simpleGit(root).applyPatch(patchFile, ["--cached"]);
+    } catch (error: any) {
+      throw new Error(`暂存 ${file.path} 的部分改动失败: ${error.message}`);
+    } finally {
+      fs.unlinkSync(patchFile);
+    }
+  }
+
   /**
    * 提交前预览和确认
+   * 工作区有未暂存的改动时，可先选择要暂存的文件或片段
    */
   async confirmCommit(): Promise<boolean> {
-    const stagedFiles = await this.getStagedFiles();
+    let stagedFiles = await this.getStagedFiles();
+
+    const unstagedFiles = await this.getUnstagedFiles();
+    if (unstagedFiles.length > 0) {
+      // 暂存区为空时直接进入选择，否则先询问
+      let select = stagedFiles.length === 0;
+      if (!select) {
+        const answers = await inquirer.prompt([
+          {
+            type: "confirm",
+            name: "select",
+            message: `工作区还有 ${unstagedFiles.length} 个文件的改动未暂存，是否选择要一并提交的改动？`,
+            default: false,
+          },
+        ]);
+        select = answers.select;
+      }
+      if (select) {
+        await this.selectChangesToStage(unstagedFiles);
+        stagedFiles = await this.getStagedFiles();
+      }
+    }
 
     if (stagedFiles.length === 0) {
       Logger.warn("暂存区没有文件");
@@ -570,17 +772,69 @@ export class GitService {
     };
   }
 
+  /**
+   * 交互式编辑提交信息的各个字段，按 commitizen 配置校验
+   */
+  async editCommitMessage(message: CommitMessage): Promise<CommitMessage> {
+    const config = await this.loadConfig();
+    const scopes = (config.scopes || []).filter(Boolean);
+
+    const answers = await inquirer.prompt([
+      {
+        type: "list",
+        name: "type",
+        message: config.messages.type || "选择提交类型:",
+        choices: config.types,
+        default: message.type,
+      },
+      config.allowCustomScopes === false && scopes.length > 0
+        ? {
+            type: "list",
+            name: "scope",
+            message: config.messages.scope || "选择修改范围:",
+            choices: [...scopes, { name: "无范围", value: "" }],
+            default: message.scope || "",
+          }
+        : {
+            type: "input",
+            name: "scope",
+            message: "修改范围 (可选):",
+            default: message.scope || "",
+          },
+      {
+        type: "input",
+        name: "subject",
+        message: "简短描述:",
+        default: message.subject,
+        validate: (input: string) => {
+          if (input.trim().length === 0) return "描述不能为空";
+          if (config.subjectLimit && input.length > config.subjectLimit) {
+            return `描述长度不能超过 ${config.subjectLimit} 个字符`;
+          }
+          return true;
+        },
+      },
+      {
+        type: "input",
+        name: "body",
+        message: "详细描述 (可选):",
+        default: message.body || "",
+      },
+    ]);
+
+    return {
+      ...message,
+      type: answers.type,
+      scope: answers.scope.trim() || undefined,
+      subject: answers.subject.trim(),
+      body: answers.body.trim() || undefined,
+    };
+  }
+
   /**
    * 格式化提交信息
    */
-  private formatCommitMessage(message: {
-    type: string;
-    scope?: string;
-    subject: string;
-    body?: string;
-    breaking?: string;
-    issues?: string;
-  }): string {
+  formatCommitMessage(message: CommitMessage): string {
     let commitMessage = `${message.type}`;
 
     if (message.scope) {
@@ -625,6 +879,7 @@ export class GitService {
 
   /**
    * 获取用于 AI 生成提交信息的差异摘要
+   * 按 token 预算选取最重要的完整片段，锁文件与生成文件折叠为一行统计
    */
   async getDiffSummaryForAI(): Promise<string> {
     try {
@@ -635,6 +890,13 @@ export class GitService {
         throw new Error("没有暂存的更改，请先使用 git add 添加要提交的文件");
       }
 
+      const { diff: diffConfig } = await settingsService.load();
+      const ignoreGlobs = diffConfig.ignore || [];
+      const collapseGlobs = [
+        ...DEFAULT_COLLAPSE_PATTERNS,
+        ...(diffConfig.collapse || []),
+      ];
+
       // 计算变更统计
       const stats = await this.calculateChangeStats(stagedFiles);
 
@@ -653,25 +915,74 @@ export class GitService {
       }
       summary += `\n`;
 
-      // 添加所有文件的详细差异
-      summary += `文件变更详情（共 ${stagedFiles.length} 个文件）：\n`;
-
-      // 发送所有文件的差异，不做数量限制
-      for (const file of stagedFiles) {
-        summary += `\n文件: ${file.path} (${file.status})\n`;
-        summary += `- 新增: +${file.changedLines.additions} 行\n`;
-        summary += `- 删除: -${file.changedLines.deletions} 行\n`;
-
-        // 添加文件差异
-        if (file.diff) {
-          // 限制差异内容长度
-          const maxLength = 500;
-          const diffContent =
-            file.diff.length > maxLength
-              ? file.diff.substring(0, maxLength) + "...(省略剩余内容)"
-              : file.diff;
-
-          summary += `差异内容:\n${diffContent}\n`;
+      const includedFiles = stagedFiles.filter(
+        (file) => !matchesAny(file.path, ignoreGlobs)
+      );
+      const ignoredCount = stagedFiles.length - includedFiles.length;
+      const isCollapsed = (file: StagedFile) =>
+        matchesAny(file.path, collapseGlobs);
+
+      // 每个文件的标题行始终保留，剩余预算用于片段
+      const fileHeaders = new Map<StagedFile, string>();
+      for (const file of includedFiles) {
+        const { additions, deletions } = file.changedLines;
+        let header = `\n文件: ${file.path} (${file.status}) +${additions} -${deletions}`;
+        if (isCollapsed(file)) header += " [生成文件/锁文件，已省略差异]";
+        fileHeaders.set(file, header + "\n");
+      }
+
+      let remaining =
+        diffConfig.tokenBudget -
+        estimateTokens(summary) -
+        estimateTokens([...fileHeaders.values()].join(""));
+
+      // 按重要度从高到低整段选入片段，放不下的片段整体跳过
+      const hunksByFile = new Map<StagedFile, DiffHunk[]>();
+      const candidates: Array<{ hunk: DiffHunk; score: number; tokens: number }> = [];
+      for (const file of includedFiles) {
+        if (isCollapsed(file) || !file.diff) continue;
+        const hunks = parseHunks(file.diff);
+        hunksByFile.set(file, hunks);
+        for (const hunk of hunks) {
+          candidates.push({
+            hunk,
+            score: scoreHunk(hunk, file.path, file.status),
+            tokens: estimateTokens(hunk.text) + 1,
+          });
+        }
+      }
+      candidates.sort((a, b) => b.score - a.score);
+
+      const selected = new Set<DiffHunk>();
+      for (const candidate of candidates) {
+        if (candidate.tokens <= remaining) {
+          selected.add(candidate.hunk);
+          remaining -= candidate.tokens;
+        }
+      }
+
+      summary += `文件变更详情（共 ${includedFiles.length} 个文件`;
+      summary += ignoredCount > 0 ? `，另有 ${ignoredCount} 个文件已按配置忽略）：\n` : `）：\n`;
+
+      // 按原始顺序输出，保证片段在文件内的先后关系
+      for (const file of includedFiles) {
+        summary += fileHeaders.get(file);
+
+        const hunks = hunksByFile.get(file);
+        if (!hunks) continue;
+        if (hunks.length === 0 && file.diff?.includes("Binary files")) {
+          summary += `(二进制文件)\n`;
+          continue;
+        }
+
+        const omitted = hunks.filter((hunk) => !selected.has(hunk));
+        for (const hunk of hunks) {
+          if (selected.has(hunk)) summary += `${hunk.text}\n`;
+        }
+        if (omitted.length > 0) {
+          const added = omitted.reduce((sum, h) => sum + h.additions, 0);
+          const deleted = omitted.reduce((sum, h) => sum + h.deletions, 0);
+          summary += `...(超出预算，省略 ${omitted.length} 个片段 +${added} -${deleted})\n`;
         }
       }
 
@@ -682,17 +993,210 @@ export class GitService {
     }
   }
 
+  /**
+   * 将简写的提交类型（如 feat）解析为配置中的完整类型（如 ✨ feat）
+   * 无法匹配时原样返回，交由校验环节报错
+   */
+  async resolveCommitType(input: string): Promise<string> {
+    const config = await this.loadConfig();
+    const type = input.trim();
+    const exact = config.types.find((t) => t.value === type);
+    if (exact) return exact.value;
+
+    const matched = config.types.find(
+      (t) => t.value.split(" ").pop() === type
+    );
+    return matched ? matched.value : type;
+  }
+
+  /**
+   * 按 commitizen 配置校验提交信息，返回错误列表（为空表示通过）
+   */
+  async validateCommitMessage(message: CommitMessage): Promise<string[]> {
+    const config = await this.loadConfig();
+    const errors: string[] = [];
+
+    const validTypes = config.types.map((t) => t.value);
+    if (!message.type) {
+      errors.push("提交类型不能为空");
+    } else if (!validTypes.includes(message.type)) {
+      errors.push(
+        `无效的提交类型 "${message.type}"，可选值: ${validTypes.join(", ")}`
+      );
+    }
+
+    if (
+      message.scope &&
+      config.allowCustomScopes === false &&
+      !(config.scopes || []).includes(message.scope)
+    ) {
+      errors.push(
+        `不允许自定义范围 "${message.scope}"，可选值: ${(config.scopes || [])
+          .filter(Boolean)
+          .join(", ")}`
+      );
+    }
+
+    if (!message.subject || message.subject.trim().length === 0) {
+      errors.push("描述不能为空");
+    } else if (
+      config.subjectLimit &&
+      message.subject.length > config.subjectLimit
+    ) {
+      errors.push(`描述长度不能超过 ${config.subjectLimit} 个字符`);
+    }
+
+    // allowBreakingChanges 可写完整类型（✨ feat）或简写（feat）
+    const breakingTypes = config.allowBreakingChanges;
+    if (
+      message.breaking &&
+      breakingTypes &&
+      !breakingTypes.includes(message.type) &&
+      !breakingTypes.includes(message.type.split(" ").pop() || "")
+    ) {
+      errors.push(
+        `提交类型 "${message.type}" 不允许包含 BREAKING CHANGE，允许的类型: ${breakingTypes.join(", ")}`
+      );
+    }
+
+    return errors;
+  }
+
+  /**
+   * 去除 git 编辑器中的注释行与剪刀线之后的内容，以及首尾空行
+   */
+  private cleanCommitMessage(raw: string): string {
+    const scissors = raw.indexOf(SCISSORS_LINE);
+    const text = scissors === -1 ? raw : raw.slice(0, scissors);
+    return text
+      .split(/\r?\n/)
+      .filter((line) => !line.startsWith("#"))
+      .map((line) => line.trimEnd())
+      .join("\n")
+      .trim();
+  }
+
+  /**
+   * 拆分正文与脚注：最后一段的首行为脚注格式时，该段为脚注
+   * 正文中以 breaking change 开头的普通语句不会被当作脚注
+   */
+  private splitFooter(lines: string[]): { body: string[]; footer: string[] } {
+    const start = lines.lastIndexOf("") + 1;
+    const last = lines.slice(start);
+    if (
+      last.length > 0 &&
+      (FOOTER_TOKEN_PATTERN.test(last[0]) ||
+        BREAKING_FOOTER_LIKE_PATTERN.test(last[0]))
+    ) {
+      return { body: lines.slice(0, start), footer: last };
+    }
+    return { body: lines, footer: [] };
+  }
+
+  /**
+   * 解析完整的提交信息文本，拆分标题、正文与 BREAKING CHANGE 脚注
+   * 标题不符合 "<类型>(<范围>): <描述>" 格式时返回 null
+   */
+  parseCommitMessage(raw: string): CommitMessage | null {
+    const [header, ...rest] = this.cleanCommitMessage(raw).split("\n");
+    const match = header.match(COMMIT_HEADER_PATTERN);
+    if (!match) return null;
+
+    const [, type, scope, bang, subject] = match;
+    const { body, footer } = this.splitFooter(rest);
+    const bodyLines = [...body];
+    let breaking: string | undefined;
+    for (const line of footer) {
+      if (BREAKING_FOOTER_PATTERN.test(line)) {
+        breaking = line.replace(BREAKING_FOOTER_PATTERN, "").trim();
+      } else {
+        bodyLines.push(line);
+      }
+    }
+
+    return {
+      type: type.trim(),
+      scope: scope?.trim() || undefined,
+      subject,
+      body: bodyLines.join("\n").trim() || undefined,
+      // 标题中的 ! 同样表示破坏性变更
+      breaking: breaking ?? (bang ? subject : undefined),
+    };
+  }
+
+  /**
+   * 按 commitizen 配置校验完整的提交信息文本，返回错误列表（为空表示通过）
+   * 在 validateCommitMessage 的基础上检查标题格式与 BREAKING CHANGE 脚注格式，
+   * 合并、回滚及 fixup!/squash! 提交不做校验
+   */
+  async lintCommitMessage(raw: string): Promise<string[]> {
+    const text = this.cleanCommitMessage(raw);
+    if (!text) return ["提交信息不能为空"];
+    if (SKIPPED_COMMIT_PATTERN.test(text)) return [];
+
+    const message = this.parseCommitMessage(text);
+    const [header, second] = text.split("\n");
+    if (!message) {
+      return [
+        `标题格式应为 "<类型>(<范围>): <描述>"，实际为 "${header}"`,
+      ];
+    }
+
+    const errors: string[] = [];
+    if (second) {
+      errors.push("标题与正文之间需要空一行");
+    }
+
+    const { footer } = this.splitFooter(text.split("\n").slice(1));
+    for (const line of footer) {
+      if (BREAKING_FOOTER_PATTERN.test(line)) {
+        if (!line.replace(BREAKING_FOOTER_PATTERN, "").trim()) {
+          errors.push("BREAKING CHANGE 脚注缺少描述");
+        }
+      } else if (BREAKING_FOOTER_LIKE_PATTERN.test(line)) {
+        errors.push(
+          `BREAKING CHANGE 脚注格式应为 "BREAKING CHANGE: <描述>"，实际为 "${line}"`
+        );
+      }
+    }
+
+    // 手写的简写类型（如 feat）提示改用配置中的完整类型（如 ✨ feat）
+    const resolvedType = await this.resolveCommitType(message.type);
+    if (resolvedType !== message.type) {
+      errors.push(
+        `提交类型应使用完整形式 "${resolvedType}"，而不是 "${message.type}"`
+      );
+      message.type = resolvedType;
+    }
+
+    return [...errors, ...(await this.validateCommitMessage(message))];
+  }
+
+  /**
+   * 获取提交范围内每个提交的完整信息，from 为空时只取 to 本身
+   */
+  async getCommitMessages(
+    from: string | undefined,
+    to: string
+  ): Promise<Array<{ hash: string; message: string }>> {
+    const range = from ? `${from}..${to}` : to;
+    const args = ["log", "--reverse", "--format=%H%x00%B%x1e", range];
+    if (!from) args.splice(1, 0, "-1");
+    const output = await this.git.raw(args);
+    return output
+      .split("\x1e")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [hash, message] = entry.split("\x00");
+        return { hash, message: message.trim() };
+      });
+  }
+
   /**
    * 使用指定的提交信息进行提交
    */
-  async commitWithMessage(message: {
-    type: string;
-    scope?: string;
-    subject: string;
-    body?: string;
-    breaking?: string;
-    issues?: string;
-  }): Promise<void> {
+  async commitWithMessage(message: CommitMessage): Promise<void> {
     try {
       const commitMessage = this.formatCommitMessage(message);
       await this.git.commit(commitMessage);
@@ -0,0 +1,115 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { Logger } from "../utils/logger";
+
+/** AI 候选的最终去向：直接提交、编辑后提交、改用常规提交、取消提交 */
+export type CandidateOutcome = "accepted" | "edited" | "manual" | "cancelled";
+
+/** 一次 AI 提交会话的记录 */
+export interface CandidateHistoryEntry {
+  time: string;
+  repo: string;
+  provider: string;
+  model: string;
+  /** 每轮生成的候选数量 */
+  candidates: number;
+  /** 重新生成的次数 */
+  regenerations: number;
+  outcome: CandidateOutcome;
+  /** 选中的候选序号（从 0 开始） */
+  chosen?: number;
+  /** 被用户修改过的字段 */
+  editedFields?: string[];
+}
+
+/** 使用情况汇总 */
+export interface CandidateStats {
+  total: number;
+  outcomes: Record<CandidateOutcome, number>;
+  averageRegenerations: number;
+  editedFields: Record<string, number>;
+}
+
+/**
+ * AI 候选使用记录服务
+ * 记录仅保存在本地 ~/.git-pro/ai-history.jsonl，不会上传
+ */
+export class HistoryService {
+  private static instance: HistoryService;
+  private readonly filePath: string;
+
+  private constructor() {
+    this.filePath = path.join(os.homedir(), ".git-pro", "ai-history.jsonl");
+  }
+
+  /** 获取实例 */
+  public static getInstance(): HistoryService {
+    if (!HistoryService.instance) {
+      HistoryService.instance = new HistoryService();
+    }
+    return HistoryService.instance;
+  }
+
+  /** 记录文件路径 */
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  /** 追加一条记录，失败时仅提示不影响提交 */
+  public record(entry: Omit<CandidateHistoryEntry, "time" | "repo">): void {
+    try {
+      const line: CandidateHistoryEntry = {
+        time: new Date().toISOString(),
+        repo: path.basename(process.cwd()),
+        ...entry,
+      };
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(line) + "\n");
+    } catch (error: any) {
+      Logger.warn(`记录 AI 使用情况失败: ${error.message}`);
+    }
+  }
+
+  /** 读取全部记录，损坏的行会被跳过 */
+  public readAll(): CandidateHistoryEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+    return fs
+      .readFileSync(this.filePath, "utf-8")
+      .split("\n")
+      .filter(Boolean)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as CandidateHistoryEntry];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  /** 汇总使用情况 */
+  public summarize(entries: CandidateHistoryEntry[] = this.readAll()): CandidateStats {
+    const stats: CandidateStats = {
+      total: entries.length,
+      outcomes: { accepted: 0, edited: 0, manual: 0, cancelled: 0 },
+      averageRegenerations: 0,
+      editedFields: {},
+    };
+
+    let regenerations = 0;
+    for (const entry of entries) {
+      stats.outcomes[entry.outcome] = (stats.outcomes[entry.outcome] || 0) + 1;
+      regenerations += entry.regenerations || 0;
+      for (const field of entry.editedFields || []) {
+        stats.editedFields[field] = (stats.editedFields[field] || 0) + 1;
+      }
+    }
+    stats.averageRegenerations = entries.length ? regenerations / entries.length : 0;
+
+    return stats;
+  }
+}
+
+export const historyService = HistoryService.getInstance();
@@ -0,0 +1,83 @@
+import { execSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { hooksService } from "./hooks";
+
+describe("hooks", () => {
+  const originalCwd = process.cwd();
+  const originalArgv = process.argv;
+  const gitEnv: Record<string, string | undefined> = {};
+  let repo: string;
+  let hookPath: string;
+
+  /** 执行 git 命令，返回是否成功 */
+  function git(args: string): boolean {
+    try {
+      execSync(`git ${args}`, { cwd: repo, stdio: "ignore" });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  beforeEach(() => {
+    repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "git-pro-hooks-")));
+    // 不受外部 git 配置（如 core.hooksPath）影响
+    for (const name of Object.keys(process.env)) {
+      if (name.startsWith("GIT_")) {
+        gitEnv[name] = process.env[name];
+        delete process.env[name];
+      }
+    }
+    git("init -q");
+    git("config user.name test");
+    git("config user.email test@example.com");
+    hookPath = path.join(repo, ".git", "hooks", "commit-msg");
+    process.chdir(repo);
+
+    // 用始终校验失败的脚本代替 git-pro，确认钩子中的 git-pro 部分会被执行
+    const lint = path.join(repo, "lint.js");
+    fs.writeFileSync(lint, "process.exit(1);\n");
+    process.argv = [originalArgv[0], lint];
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    process.argv = originalArgv;
+    Object.assign(process.env, gitEnv);
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("runs before an existing shell hook that exits early", () => {
+    // arrange:
+    fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+    fs.writeFileSync(hookPath, "#!/bin/sh\necho existing\nexit 0\n", { mode: 0o755 });
+
+    // act:
+    const [result] = hooksService.install(["commit-msg"]);
+    const committed = git('commit -q --allow-empty -m "bad message"');
+
+    // assert:
+    expect(result.action).toBe("inserted");
+    expect(committed).toBe(false);
+    const content = fs.readFileSync(hookPath, "utf8");
+    expect(content.startsWith("#!/bin/sh\n# >>> git-pro >>>")).toBe(true);
+    expect(content.endsWith("echo existing\nexit 0\n")).toBe(true);
+  });
+
+  it("restores the existing hook on uninstall", () => {
+    // arrange:
+    const original = "#!/bin/sh\necho existing\nexit 0\n";
+    fs.mkdirSync(path.dirname(hookPath), { recursive: true });
+    fs.writeFileSync(hookPath, original, { mode: 0o755 });
+    hooksService.install(["commit-msg"]);
+
+    // act:
+    hooksService.uninstall(["commit-msg"]);
+
+    // assert:
+    expect(fs.readFileSync(hookPath, "utf8")).toBe(original);
+    expect(git('commit -q --allow-empty -m "bad message"')).toBe(true);
+  });
+});
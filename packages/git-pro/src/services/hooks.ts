@@ -0,0 +1,230 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+
+/** git-pro 管理的钩子 */
+export type HookName = "prepare-commit-msg" | "commit-msg";
+
+export const HOOK_NAMES: HookName[] = ["prepare-commit-msg", "commit-msg"];
+
+/** 设置该环境变量后，单次提交跳过 git-pro 钩子，如 GIT_PRO_SKIP_HOOKS=1 git commit */
+export const SKIP_HOOKS_ENV = "GIT_PRO_SKIP_HOOKS";
+
+const BLOCK_START = "# >>> git-pro >>>";
+const BLOCK_END = "# <<< git-pro <<<";
+
+/** 无法直接插入脚本的原有钩子（如 node 脚本）改名保留，由 git-pro 钩子先行调用 */
+const CHAINED_SUFFIX = ".git-pro-chained";
+
+/** 钩子的安装结果 */
+export interface HookResult {
+  name: HookName;
+  path: string;
+  /** created 新建，inserted 插入到已有钩子开头，chained 包装已有钩子，updated 更新，removed 移除，skipped 未安装 */
+  action: "created" | "inserted" | "chained" | "updated" | "removed" | "skipped";
+}
+
+/**
+ * Git 钩子服务
+ * 以标记块的形式写入钩子脚本，与已有钩子及 husky 共存
+ */
+export class HooksService {
+  private static instance: HooksService;
+
+  private constructor() {}
+
+  /** 获取实例 */
+  public static getInstance(): HooksService {
+    if (!HooksService.instance) {
+      HooksService.instance = new HooksService();
+    }
+    return HooksService.instance;
+  }
+
+  /**
+   * 获取钩子目录
+   * 使用 husky 时返回 .husky 下的用户脚本目录，而不是 husky 生成的 .husky/_
+   */
+  public getHooksDir(): { dir: string; husky: boolean } {
+    const root = git("rev-parse --show-toplevel");
+    let hooksPath = "";
+    try {
+      hooksPath = git("config core.hooksPath");
+    } catch {
+      // 未设置 core.hooksPath
+    }
+
+    if (hooksPath) {
+      const dir = path.resolve(root, hooksPath);
+      if (dir.split(path.sep).includes(".husky")) {
+        // husky v9 指向 .husky/_，v4-v8 指向 .husky
+        return {
+          dir: path.basename(dir) === "_" ? path.dirname(dir) : dir,
+          husky: true,
+        };
+      }
+      return { dir, husky: false };
+    }
+
+    return { dir: path.resolve(git("rev-parse --git-path hooks")), husky: false };
+  }
+
+  /**
+   * 安装钩子，已安装的钩子会被更新
+   */
+  public install(names: HookName[] = HOOK_NAMES): HookResult[] {
+    const { dir, husky } = this.getHooksDir();
+    fs.mkdirSync(dir, { recursive: true });
+    return names.map((name) => this.installHook(dir, name, husky));
+  }
+
+  /**
+   * 更新已安装的钩子（如升级 git-pro 或 Node.js 之后），未安装的钩子不处理
+   */
+  public update(): HookResult[] {
+    const { dir, husky } = this.getHooksDir();
+    return HOOK_NAMES.map((name) => {
+      const hookPath = path.join(dir, name);
+      if (!this.isInstalled(hookPath)) {
+        return { name, path: hookPath, action: "skipped" };
+      }
+      return this.installHook(dir, name, husky);
+    });
+  }
+
+  /**
+   * 移除钩子中的 git-pro 部分，恢复被包装的原有钩子
+   */
+  public uninstall(names: HookName[] = HOOK_NAMES): HookResult[] {
+    const { dir } = this.getHooksDir();
+    return names.map((name) => {
+      const hookPath = path.join(dir, name);
+      if (!this.isInstalled(hookPath)) {
+        return { name, path: hookPath, action: "skipped" };
+      }
+
+      const chainedPath = hookPath + CHAINED_SUFFIX;
+      if (fs.existsSync(chainedPath)) {
+        fs.renameSync(chainedPath, hookPath);
+        return { name, path: hookPath, action: "removed" };
+      }
+
+      const rest = removeBlock(fs.readFileSync(hookPath, "utf8"));
+      // 只剩 shebang 时说明钩子由 git-pro 创建，直接删除
+      if (!rest.replace(/^#!.*$/m, "").trim()) {
+        fs.unlinkSync(hookPath);
+      } else {
+        fs.writeFileSync(hookPath, rest);
+      }
+      return { name, path: hookPath, action: "removed" };
+    });
+  }
+
+  private isInstalled(hookPath: string): boolean {
+    return (
+      fs.existsSync(hookPath) &&
+      fs.readFileSync(hookPath, "utf8").includes(BLOCK_START)
+    );
+  }
+
+  private installHook(dir: string, name: HookName, husky: boolean): HookResult {
+    const hookPath = path.join(dir, name);
+    const block = buildBlock(name, husky);
+
+    if (!fs.existsSync(hookPath)) {
+      writeHook(hookPath, `#!/bin/sh\n${block}`);
+      return { name, path: hookPath, action: "created" };
+    }
+
+    const content = fs.readFileSync(hookPath, "utf8");
+    if (content.includes(BLOCK_START)) {
+      writeHook(hookPath, insertBlock(removeBlock(content), block));
+      return { name, path: hookPath, action: "updated" };
+    }
+
+    const firstLine = content.split("\n")[0];
+    if (!firstLine.startsWith("#!") || /\b(ba|da|z)?sh\b/.test(firstLine)) {
+      // shell 脚本（husky v9 的脚本没有 shebang）插入到原有内容之前，
+      // 原有脚本以 exit 或 exec 结尾时 git-pro 也能执行
+      writeHook(hookPath, insertBlock(content, block));
+      return { name, path: hookPath, action: "inserted" };
+    }
+
+    // 其他解释器的脚本改名保留，由新的 shell 钩子先调用它
+    fs.renameSync(hookPath, hookPath + CHAINED_SUFFIX);
+    writeHook(
+      hookPath,
+      `#!/bin/sh\n"$(dirname "$0")/${name}${CHAINED_SUFFIX}" "$@" || exit $?\n${block}`
+    );
+    return { name, path: hookPath, action: "chained" };
+  }
+}
+
+/** 执行 git 命令并返回去除首尾空白的输出 */
+function git(args: string): string {
+  return execSync(`git ${args}`, { stdio: ["ignore", "pipe", "ignore"] })
+    .toString()
+    .trim();
+}
+
+/**
+ * 生成钩子中的 git-pro 标记块
+ * husky 的钩子会提交到仓库供团队共用，因此通过 PATH 调用 git-pro，未安装时跳过；
+ * 仓库本地钩子则写入当前 Node.js 与 git-pro 的绝对路径，图形界面客户端中也能运行
+ */
+function buildBlock(name: HookName, husky: boolean): string {
+  const command = husky
+    ? "git-pro"
+    : [process.execPath, path.resolve(process.argv[1])]
+        .map((p) => `"${p.replace(/\\/g, "/")}"`)
+        .join(" ");
+  const condition = husky
+    ? `[ -z "$${SKIP_HOOKS_ENV}" ] && command -v git-pro >/dev/null 2>&1`
+    : `[ -z "$${SKIP_HOOKS_ENV}" ]`;
+  // 预填提交信息失败不应阻止提交，校验失败则中止提交
+  const run =
+    name === "prepare-commit-msg"
+      ? `${command} hooks prepare-commit-msg "$1" "$2" || true`
+      : `${command} lint --edit "$1" || exit $?`;
+
+  return [
+    BLOCK_START,
+    `# 由 git-pro hooks install 生成，git-pro hooks uninstall 可移除；${SKIP_HOOKS_ENV}=1 时跳过`,
+    `if ${condition}; then`,
+    `  ${run}`,
+    "fi",
+    BLOCK_END,
+    "",
+  ].join("\n");
+}
+
+/** 将标记块插入到 shebang 与 husky.sh 之后、原有内容之前 */
+function insertBlock(content: string, block: string): string {
+  const lines = content.split("\n");
+  let index = lines[0].startsWith("#!") ? 1 : 0;
+  // husky v4-v8 的脚本先加载 husky.sh，HUSKY=0 时在此跳过所有钩子
+  while (index < lines.length && /husky\.sh/.test(lines[index])) index++;
+
+  const head = lines.slice(0, index).join("\n");
+  const rest = lines.slice(index).join("\n").replace(/^\n+/, "");
+  return (head ? head + "\n" : "") + block + (rest.trim() ? "\n" + rest : "");
+}
+
+/** 移除标记块 */
+function removeBlock(content: string): string {
+  const start = content.indexOf(BLOCK_START);
+  const end = content.indexOf(BLOCK_END);
+  if (start === -1 || end === -1) return content;
+  const rest =
+    content.slice(0, start) +
+    content.slice(end + BLOCK_END.length).replace(/^\n+/, "");
+  return rest.replace(/\n{3,}/g, "\n\n").trimEnd() + "\n";
+}
+
+/** 写入钩子并设置可执行权限 */
+function writeHook(hookPath: string, content: string): void {
+  fs.writeFileSync(hookPath, content);
+  fs.chmodSync(hookPath, 0o755);
+}
+
+export const hooksService = HooksService.getInstance();
@@ -0,0 +1,83 @@
+import {
+  AIProvider,
+  ProviderHttpRequest,
+  ProviderRequestOptions,
+  ProviderStreamEvent,
+} from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Messages API 支持的通用参数，其余参数（如 frequency_penalty）会被忽略 */
+const SUPPORTED_PARAMS = ["temperature", "top_p", "top_k", "metadata"];
+
+/**
+ * Anthropic 风格 Messages API
+ * POST {baseUrl}/v1/messages
+ */
+export class AnthropicProvider implements AIProvider {
+  readonly name = "anthropic";
+  readonly requiresApiKey = true;
+  readonly defaultBaseUrl = "https://api.anthropic.com";
+
+  buildRequest(options: ProviderRequestOptions): ProviderHttpRequest {
+    const base = options.baseUrl.replace(/\/+$/, "");
+    const url = base.endsWith("/messages")
+      ? base
+      : base.endsWith("/v1")
+      ? `${base}/messages`
+      : `${base}/v1/messages`;
+    const params = options.parameters;
+
+    const body: Record<string, any> = {
+      model: options.model,
+      // max_tokens 为必填参数
+      max_tokens: params.max_tokens ?? 2000,
+      messages: [{ role: "user", content: options.prompt }],
+    };
+    for (const key of SUPPORTED_PARAMS) {
+      if (params[key] !== undefined) {
+        body[key] = params[key];
+      }
+    }
+    if (options.stream) {
+      body.stream = true;
+    }
+    if (params.stop !== undefined) {
+      body.stop_sequences = Array.isArray(params.stop)
+        ? params.stop
+        : [params.stop];
+    }
+
+    return {
+      url,
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": options.apiKey,
+        "anthropic-version": options.extra?.anthropicVersion || ANTHROPIC_VERSION,
+      },
+      body,
+    };
+  }
+
+  extractText(data: any): string {
+    if (!data || !Array.isArray(data.content)) {
+      throw new Error("API 返回无效响应");
+    }
+    return data.content
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+  }
+
+  /** 只关心文本增量事件，message_stop 表示结束 */
+  extractStreamDelta(event: ProviderStreamEvent): string | null {
+    if (event.event === "message_stop") return null;
+    if (event.event === "error") {
+      throw new Error(`API 流式响应错误: ${event.data}`);
+    }
+    if (event.event !== "content_block_delta") return "";
+
+    const chunk = JSON.parse(event.data);
+    return chunk?.delta?.type === "text_delta" ? chunk.delta.text : "";
+  }
+}
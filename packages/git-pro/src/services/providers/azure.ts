@@ -0,0 +1,67 @@
+import {
+  AIProvider,
+  ProviderHttpRequest,
+  ProviderRequestOptions,
+  ProviderStreamEvent,
+} from "./types";
+import { extractChatCompletionDelta } from "./openai";
+
+const DEFAULT_API_VERSION = "2024-02-01";
+
+/** Azure 不识别的厂商扩展参数 */
+const IGNORED_PARAMS = ["enable_thinking"];
+
+/**
+ * Azure OpenAI 部署
+ * POST {baseUrl}/openai/deployments/{model}/chat/completions?api-version=...
+ * model 填写部署名称，baseUrl 为资源地址（如 https://<资源名>.openai.azure.com），没有默认值
+ */
+export class AzureProvider implements AIProvider {
+  readonly name = "azure";
+  readonly requiresApiKey = true;
+
+  buildRequest(options: ProviderRequestOptions): ProviderHttpRequest {
+    const apiVersion = options.extra?.apiVersion || DEFAULT_API_VERSION;
+    const base = options.baseUrl.replace(/\/+$/, "");
+    // 已配置完整部署地址时直接使用
+    const endpoint = base.includes("/deployments/")
+      ? base
+      : `${base}/openai/deployments/${encodeURIComponent(
+          options.model
+        )}/chat/completions`;
+    const url = endpoint.includes("api-version=")
+      ? endpoint
+      : `${endpoint}${endpoint.includes("?") ? "&" : "?"}api-version=${apiVersion}`;
+
+    const params = { ...options.parameters };
+    for (const key of IGNORED_PARAMS) {
+      delete params[key];
+    }
+
+    return {
+      url,
+      headers: {
+        "Content-Type": "application/json",
+        "api-key": options.apiKey,
+      },
+      body: {
+        // Azure 通过部署名确定模型，请求体中不需要 model 字段
+        ...params,
+        messages: [{ role: "user", content: options.prompt }],
+        ...(options.stream ? { stream: true } : {}),
+      },
+    };
+  }
+
+  extractText(data: any): string {
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("API 返回无效响应");
+    }
+    return content;
+  }
+
+  extractStreamDelta(event: ProviderStreamEvent): string | null {
+    return extractChatCompletionDelta(event);
+  }
+}
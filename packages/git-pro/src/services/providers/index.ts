@@ -0,0 +1,38 @@
+import { AIProvider } from "./types";
+import { OpenAIProvider, LlamaCppProvider } from "./openai";
+import { AnthropicProvider } from "./anthropic";
+import { AzureProvider } from "./azure";
+import { OllamaProvider } from "./ollama";
+
+export * from "./types";
+
+/** 已注册的服务商 */
+const providers: Record<string, () => AIProvider> = {
+  openai: () => new OpenAIProvider(),
+  anthropic: () => new AnthropicProvider(),
+  azure: () => new AzureProvider(),
+  ollama: () => new OllamaProvider(),
+  llamacpp: () => new LlamaCppProvider(),
+};
+
+/** 默认服务商（OpenAI 兼容接口） */
+export const DEFAULT_PROVIDER = "openai";
+
+/**
+ * 获取服务商适配器
+ * @throws {Error} 服务商名称未注册时抛出错误
+ */
+export function createProvider(name: string = DEFAULT_PROVIDER): AIProvider {
+  const factory = providers[name.toLowerCase()];
+  if (!factory) {
+    throw new Error(
+      `❌ 不支持的 AI 服务商 "${name}"，可选值: ${getProviderNames().join(", ")}`
+    );
+  }
+  return factory();
+}
+
+/** 获取所有已注册的服务商名称 */
+export function getProviderNames(): string[] {
+  return Object.keys(providers);
+}
@@ -0,0 +1,56 @@
+import { AIProvider, ProviderHttpRequest, ProviderRequestOptions } from "./types";
+
+/** 通用参数名到 Ollama options 字段的映射 */
+const OPTION_ALIASES: Record<string, string> = {
+  max_tokens: "num_predict",
+};
+
+/** 不属于模型采样参数、不应放入 options 的字段 */
+const IGNORED_PARAMS = ["enable_thinking", "stream"];
+
+/**
+ * 本地 Ollama 服务
+ * POST {baseUrl}/api/chat
+ */
+export class OllamaProvider implements AIProvider {
+  readonly name = "ollama";
+  readonly requiresApiKey = false;
+  readonly defaultBaseUrl = "http://localhost:11434";
+
+  buildRequest(options: ProviderRequestOptions): ProviderHttpRequest {
+    const base = options.baseUrl.replace(/\/+$/, "");
+    const url = base.endsWith("/api/chat") ? base : `${base}/api/chat`;
+
+    const modelOptions: Record<string, any> = {};
+    for (const [key, value] of Object.entries(options.parameters)) {
+      if (IGNORED_PARAMS.includes(key)) continue;
+      modelOptions[OPTION_ALIASES[key] || key] = value;
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (options.apiKey) {
+      headers.Authorization = `Bearer ${options.apiKey}`;
+    }
+
+    return {
+      url,
+      headers,
+      body: {
+        model: options.model,
+        messages: [{ role: "user", content: options.prompt }],
+        stream: false,
+        options: modelOptions,
+      },
+    };
+  }
+
+  extractText(data: any): string {
+    const content = data?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("API 返回无效响应");
+    }
+    return content;
+  }
+}
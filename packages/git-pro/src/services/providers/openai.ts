@@ -0,0 +1,78 @@
+import {
+  AIProvider,
+  ProviderHttpRequest,
+  ProviderRequestOptions,
+  ProviderStreamEvent,
+} from "./types";
+
+/**
+ * OpenAI 兼容接口（SiliconFlow、DeepSeek、llama.cpp server 等）
+ * POST {baseUrl}/chat/completions
+ */
+export class OpenAIProvider implements AIProvider {
+  readonly name: string = "openai";
+  readonly requiresApiKey: boolean = true;
+  readonly defaultBaseUrl: string = "https://api.siliconflow.cn/v1/chat/completions";
+
+  buildRequest(options: ProviderRequestOptions): ProviderHttpRequest {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (options.apiKey) {
+      headers.Authorization = `Bearer ${options.apiKey}`;
+    }
+
+    return {
+      url: this.resolveUrl(options.baseUrl),
+      headers,
+      body: {
+        // 通用参数原样透传，核心字段不可被覆盖
+        ...options.parameters,
+        model: options.model,
+        messages: [{ role: "user", content: options.prompt }],
+        ...(options.stream ? { stream: true } : {}),
+      },
+    };
+  }
+
+  extractText(data: any): string {
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("API 返回无效响应");
+    }
+    return content;
+  }
+
+  extractStreamDelta(event: ProviderStreamEvent): string | null {
+    return extractChatCompletionDelta(event);
+  }
+
+  /** 兼容直接配置完整地址与只配置服务根地址两种写法 */
+  protected resolveUrl(baseUrl: string): string {
+    const url = baseUrl.replace(/\/+$/, "");
+    return url.endsWith("/chat/completions") ? url : `${url}/chat/completions`;
+  }
+}
+
+/**
+ * llama.cpp server 提供 OpenAI 兼容接口，本地部署时无需密钥
+ */
+export class LlamaCppProvider extends OpenAIProvider {
+  readonly name: string = "llamacpp";
+  readonly requiresApiKey: boolean = false;
+  readonly defaultBaseUrl: string = "http://localhost:8080/v1";
+}
+
+/**
+ * 解析 chat-completions 流式事件：data 为 JSON 片段，以 [DONE] 结束
+ */
+export function extractChatCompletionDelta(
+  event: ProviderStreamEvent
+): string | null {
+  const data = event.data.trim();
+  if (data === "[DONE]") return null;
+  if (!data) return "";
+
+  const chunk = JSON.parse(data);
+  return chunk?.choices?.[0]?.delta?.content || "";
+}
@@ -0,0 +1,55 @@
+/**
+ * AI 服务商请求参数
+ */
+export interface ProviderRequestOptions {
+  /** 接口地址（来自 api.baseUrl，未配置时为服务商的默认地址） */
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  prompt: string;
+  /** 通用模型参数（来自 model.parameters，已合并默认值） */
+  parameters: Record<string, any>;
+  /** 额外的服务商配置，如 Azure 的 apiVersion */
+  extra?: Record<string, any>;
+  /** 是否请求流式输出（SSE） */
+  stream?: boolean;
+}
+
+/**
+ * 流式响应中的一条 SSE 事件
+ */
+export interface ProviderStreamEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * 发送给服务商的 HTTP 请求
+ */
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+}
+
+/**
+ * AI 服务商适配器
+ * 负责把通用配置映射为各家接口的请求结构，并把响应统一为纯文本
+ */
+export interface AIProvider {
+  /** 服务商名称 */
+  readonly name: string;
+  /** 是否必须提供 API 密钥（本地服务通常不需要） */
+  readonly requiresApiKey: boolean;
+  /** 未配置 api.baseUrl 时使用的接口地址，没有通用地址的服务商（如 Azure）必须配置 */
+  readonly defaultBaseUrl?: string;
+  /** 构建请求 */
+  buildRequest(options: ProviderRequestOptions): ProviderHttpRequest;
+  /** 从响应中提取模型输出文本 */
+  extractText(data: any): string;
+  /**
+   * 从流式事件中提取增量文本，返回 null 表示流已结束
+   * 未实现时表示该服务商不支持 SSE 流式输出
+   */
+  extractStreamDelta?(event: ProviderStreamEvent): string | null;
+}
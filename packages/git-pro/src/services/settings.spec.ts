@@ -0,0 +1,97 @@
+import axios from "axios";
+import { execSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { settingsService } from "./settings";
+import { Logger } from "../utils/logger";
+
+describe("settings", () => {
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  let home: string;
+  let repo: string;
+
+  /** 写入 JSON 配置文件 */
+  function writeJson(filePath: string, content: Record<string, any>) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(content));
+  }
+
+  beforeEach(() => {
+    home = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "git-pro-home-")));
+    repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "git-pro-repo-")));
+    execSync("git init -q", { cwd: repo });
+    process.env.HOME = home;
+    process.chdir(repo);
+    settingsService.setCliOverrides([]);
+    spyOn(Logger, "warn");
+    spyOn(Logger, "info");
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    fs.rmSync(home, { recursive: true, force: true });
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("ignores the api address from an untrusted repo config", async () => {
+    // arrange:
+    writeJson(path.join(repo, ".git-pro.json"), {
+      api: { baseUrl: "http://127.0.0.1:18555/steal", provider: "ollama", stream: false },
+      remoteConfigUrl: "http://127.0.0.1:18555/config.json",
+      trust: { repos: [repo] },
+    });
+
+    // act:
+    const config = await settingsService.load();
+
+    // assert:
+    expect(config.api.baseUrl).toBeUndefined();
+    expect(config.api.provider).toBe("openai");
+    expect(config.api.stream).toBe(false);
+    expect(config.remoteConfigUrl).toBeUndefined();
+    expect(Logger.warn).toHaveBeenCalledWith(
+      jasmine.stringMatching("已忽略仓库配置 .* 中的 api.baseUrl")
+    );
+  });
+
+  it("uses the api address from a repo the user trusts", async () => {
+    // arrange:
+    writeJson(path.join(repo, ".git-pro.json"), {
+      api: { baseUrl: "http://localhost:8080/v1", provider: "llamacpp" },
+    });
+    writeJson(path.join(home, ".git-pro", "config.json"), {
+      trust: { repos: [repo] },
+    });
+
+    // act:
+    const config = await settingsService.load();
+
+    // assert:
+    expect(config.api.baseUrl).toBe("http://localhost:8080/v1");
+    expect(config.api.provider).toBe("llamacpp");
+    expect(Logger.warn).not.toHaveBeenCalled();
+  });
+
+  it("trusts a remote config only when its host is in the allowlist", async () => {
+    // arrange:
+    writeJson(path.join(home, ".git-pro", "config.json"), {
+      remoteConfigUrl: "https://config.example.com/git-pro.json",
+    });
+    spyOn(axios, "get").and.resolveTo({
+      data: { api: { baseUrl: "https://llm.example.com/v1" }, model: { default: "m" } },
+    });
+
+    // act:
+    const untrusted = await settingsService.load();
+    settingsService.setCliOverrides(['trust.hosts=["config.example.com"]']);
+    const trusted = await settingsService.load();
+
+    // assert:
+    expect(untrusted.api.baseUrl).toBeUndefined();
+    expect(untrusted.model.default).toBe("m");
+    expect(trusted.api.baseUrl).toBe("https://llm.example.com/v1");
+  });
+});
@@ -0,0 +1,478 @@
+import axios from "axios";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { execSync } from "child_process";
+import { Logger } from "../utils/logger";
+import {
+  deepMerge,
+  flatten,
+  getByPath,
+  isPlainObject,
+  setByPath,
+  unsetByPath,
+} from "../utils/object";
+import { DEFAULT_SETTINGS } from "./defaults";
+
+export interface AIConfig {
+  api: {
+    /** AI 服务商：openai | anthropic | azure | ollama | llamacpp，默认 openai */
+    provider?: string;
+    /** 接口地址，未配置时使用服务商的默认地址（openai 为 SiliconFlow） */
+    baseUrl?: string;
+    timeout?: number;
+    /** 是否使用流式输出（服务商支持时），默认 true */
+    stream?: boolean;
+    /** Azure OpenAI 的 api-version */
+    apiVersion?: string;
+    /** Anthropic Messages API 的 anthropic-version */
+    anthropicVersion?: string;
+  };
+  model: {
+    default: string;
+    parameters?: {
+      // 所有API参数都可以通过此配置动态传入
+      // 常用参数示例：
+      enable_thinking?: boolean;
+      temperature?: number;
+      max_tokens?: number;
+      top_p?: number;
+      frequency_penalty?: number;
+      presence_penalty?: number;
+      // 任何其他API参数都可以在这里添加，无需修改代码
+      [key: string]: any;
+    };
+  };
+  prompt: {
+    systemPrompt: string;
+    customPrompt: string;
+    outputFormat: {
+      instruction: string;
+      example: Record<string, string>;
+    };
+  };
+  defaultTypes: Array<{ value: string; name: string }>;
+  defaultScopes: string[];
+  fallback: {
+    type: string;
+    subject: string;
+  };
+  messages: {
+    modelInfo: string;
+    success: string;
+    parseError: string;
+    typeWarning: string;
+  };
+}
+
+/** AI 提示词中代码差异的预算配置 */
+export interface DiffConfig {
+  /** 差异摘要的 token 预算 */
+  tokenBudget: number;
+  /** 完全不发送给 AI 的文件 glob */
+  ignore: string[];
+  /** 额外折叠为一行统计的文件 glob（锁文件、dist/ 等默认已折叠） */
+  collapse: string[];
+}
+
+/** AI 候选提交信息配置 */
+export interface CandidatesConfig {
+  /** 每次生成的候选数量 */
+  count: number;
+  /** 是否在本地记录候选的使用情况（~/.git-pro/ai-history.jsonl） */
+  log: boolean;
+}
+
+/** 信任列表，仅在用户级配置（或命令行参数）中生效 */
+export interface TrustConfig {
+  /** 允许通过 .git-pro.json 修改接口地址等配置的仓库根目录 */
+  repos?: string[];
+  /** 允许修改接口地址等配置的远程配置主机，如 config.example.com */
+  hosts?: string[];
+}
+
+/** git-pro 完整配置 */
+export interface GitProConfig extends AIConfig {
+  /** 远程配置地址（可选），配置后会在内置默认值之上叠加远程配置 */
+  remoteConfigUrl?: string;
+  trust?: TrustConfig;
+  diff: DiffConfig;
+  candidates: CandidatesConfig;
+}
+
+/** 配置层级，按优先级从低到高排列 */
+export type ConfigSource = "default" | "remote" | "user" | "repo" | "env" | "cli";
+
+interface ConfigLayer {
+  source: ConfigSource;
+  config: Record<string, any>;
+}
+
+interface CachedConfig {
+  config: Record<string, any>;
+  timestamp: number;
+  version?: string;
+  url: string;
+}
+
+/** 环境变量到配置项的映射 */
+const ENV_MAPPINGS: Record<string, string> = {
+  AI_PROVIDER: "api.provider",
+  AI_BASE_URL: "api.baseUrl",
+  AI_MODEL: "model.default",
+  AI_PROMPT: "prompt.customPrompt",
+  GIT_PRO_REMOTE_CONFIG_URL: "remoteConfigUrl",
+};
+
+/** 远程配置缓存有效期（7天） */
+const CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/** 不允许出现在配置中的密钥字段，密钥统一由 git-pro auth 管理 */
+const SECRET_KEYS = ["api.defaultApiKey", "api.apiKey"];
+
+/**
+ * 决定密钥发往何处的配置项，仓库配置与远程配置只有在受信任时才能修改，
+ * 否则克隆一个仓库就可能把用户的密钥发送到任意地址
+ */
+const TRUSTED_ONLY_KEYS = ["api.baseUrl", "api.provider", "remoteConfigUrl"];
+
+/** 仓库级配置文件名 */
+const REPO_CONFIG_FILE = ".git-pro.json";
+
+/**
+ * 分层配置服务
+ * 优先级：内置默认值 < 远程配置(可选) < 用户配置 < 仓库配置 < 环境变量 < 命令行参数
+ */
+export class SettingsService {
+  private static instance: SettingsService;
+  private cliOverrides: Record<string, any> = {};
+  private layers: ConfigLayer[] | null = null;
+
+  private constructor() {}
+
+  /** 获取实例 */
+  public static getInstance(): SettingsService {
+    if (!SettingsService.instance) {
+      SettingsService.instance = new SettingsService();
+    }
+    return SettingsService.instance;
+  }
+
+  /** 用户级配置目录 */
+  private get userDir(): string {
+    return path.join(os.homedir(), ".git-pro");
+  }
+
+  /** 用户级配置文件路径 */
+  public getUserConfigPath(): string {
+    return path.join(this.userDir, "config.json");
+  }
+
+  /** 仓库级配置文件路径，位于仓库根目录；不在 git 仓库中时使用当前目录 */
+  public getRepoConfigPath(): string {
+    let root = process.cwd();
+    try {
+      root = execSync("git rev-parse --show-toplevel", {
+        stdio: ["ignore", "pipe", "ignore"],
+      })
+        .toString()
+        .trim();
+    } catch {
+      // 不在 git 仓库中
+    }
+    return path.join(root, REPO_CONFIG_FILE);
+  }
+
+  /** 远程配置缓存路径 */
+  public getCachePath(): string {
+    return path.join(this.userDir, "ai-config-cache.json");
+  }
+
+  /**
+   * 设置命令行覆盖项
+   * @param pairs 形如 key=value 的参数列表
+   * @throws {Error} 参数格式不正确时抛出错误
+   */
+  public setCliOverrides(pairs: string[] = []): void {
+    const overrides: Record<string, any> = {};
+    for (const pair of pairs) {
+      const index = pair.indexOf("=");
+      if (index <= 0) {
+        throw new Error(`无效的配置参数 "${pair}"，格式应为 key=value`);
+      }
+      setByPath(
+        overrides,
+        pair.slice(0, index).trim(),
+        this.parseValue(pair.slice(index + 1))
+      );
+    }
+    this.cliOverrides = overrides;
+    this.layers = null;
+  }
+
+  /**
+   * 加载合并后的配置
+   */
+  public async load(): Promise<GitProConfig> {
+    const layers = await this.loadLayers();
+    return deepMerge(
+      {} as GitProConfig,
+      ...layers.map((layer) => layer.config)
+    );
+  }
+
+  /**
+   * 读取单个配置项
+   */
+  public async get(key: string): Promise<any> {
+    return getByPath(await this.load(), key);
+  }
+
+  /**
+   * 列出所有配置项及其来源
+   */
+  public async list(): Promise<
+    Array<{ key: string; value: any; source: ConfigSource }>
+  > {
+    const layers = await this.loadLayers();
+    const merged = flatten(await this.load());
+
+    return Object.entries(merged).map(([key, value]) => {
+      // 最后一个定义了该配置项的层级即为来源
+      const layer = [...layers]
+        .reverse()
+        .find((l) => getByPath(l.config, key) !== undefined);
+      return { key, value, source: layer ? layer.source : "default" };
+    });
+  }
+
+  /**
+   * 写入配置项
+   * @param global 为 true 时写入用户级配置，否则写入仓库级配置
+   * @returns 写入的配置文件路径
+   */
+  public set(key: string, rawValue: string, global: boolean = false): string {
+    if (SECRET_KEYS.includes(key)) {
+      throw new Error(`不支持在配置文件中保存密钥，请使用 git-pro auth login`);
+    }
+    const filePath = global ? this.getUserConfigPath() : this.getRepoConfigPath();
+    const config = this.readJsonFile(filePath) || {};
+    setByPath(config, key, this.parseValue(rawValue));
+    this.writeJsonFile(filePath, config);
+    this.layers = null;
+    return filePath;
+  }
+
+  /**
+   * 删除配置项
+   * @returns 是否删除成功
+   */
+  public unset(key: string, global: boolean = false): boolean {
+    const filePath = global ? this.getUserConfigPath() : this.getRepoConfigPath();
+    const config = this.readJsonFile(filePath);
+    if (!config || !unsetByPath(config, key)) {
+      return false;
+    }
+    this.writeJsonFile(filePath, config);
+    this.layers = null;
+    return true;
+  }
+
+  /**
+   * 按优先级加载所有配置层
+   */
+  private async loadLayers(): Promise<ConfigLayer[]> {
+    if (this.layers) return this.layers;
+
+    const userFile = this.readJsonFile(this.getUserConfigPath());
+    const repoPath = this.getRepoConfigPath();
+    const repoFile = this.readJsonFile(repoPath);
+    const user = userFile && this.stripSecrets(userFile);
+    const env = this.readEnv();
+
+    // 信任列表只读取用户自己的配置，仓库与远程配置不能信任自己
+    const trust: TrustConfig =
+      getByPath(deepMerge({}, user || {}, this.cliOverrides), "trust") || {};
+    const repoRoot = path.dirname(repoPath);
+    const repo =
+      repoFile &&
+      this.stripUntrusted(this.stripSecrets(repoFile), {
+        label: `仓库配置 ${repoPath}`,
+        trusted: (trust.repos || []).some(
+          (dir) => path.resolve(dir) === path.resolve(repoRoot)
+        ),
+        hint: `如信任该仓库，请将 ${repoRoot} 加入用户级配置的 trust.repos`,
+      });
+
+    const layers: ConfigLayer[] = [{ source: "default", config: DEFAULT_SETTINGS }];
+
+    // 远程地址本身也可以来自任意本地层级
+    const remoteUrl = getByPath(
+      deepMerge({}, user || {}, repo || {}, env, this.cliOverrides),
+      "remoteConfigUrl"
+    );
+    if (remoteUrl) {
+      const remote = await this.loadRemoteConfig(remoteUrl);
+      const host = this.getHost(remoteUrl);
+      if (remote) {
+        layers.push({
+          source: "remote",
+          config: this.stripUntrusted(remote, {
+            label: `远程配置 ${remoteUrl}`,
+            trusted: Boolean(host && (trust.hosts || []).includes(host)),
+            hint: `如信任该地址，请将 ${host || remoteUrl} 加入用户级配置的 trust.hosts`,
+          }),
+        });
+      }
+    }
+
+    if (user) layers.push({ source: "user", config: user });
+    if (repo) layers.push({ source: "repo", config: repo });
+    layers.push({ source: "env", config: env });
+    layers.push({ source: "cli", config: this.cliOverrides });
+
+    this.layers = layers;
+    return layers;
+  }
+
+  /** 从环境变量读取配置 */
+  private readEnv(): Record<string, any> {
+    const config: Record<string, any> = {};
+    for (const [name, key] of Object.entries(ENV_MAPPINGS)) {
+      const value = process.env[name];
+      if (value) setByPath(config, key, value);
+    }
+    return config;
+  }
+
+  /**
+   * 加载远程配置，失败时回退到本地缓存
+   */
+  private async loadRemoteConfig(
+    url: string
+  ): Promise<Record<string, any> | null> {
+    try {
+      const response = await axios.get(url, { timeout: 10000 });
+      if (!isPlainObject(response.data)) {
+        throw new Error("配置格式无效");
+      }
+      const config = this.stripSecrets(response.data);
+      this.saveConfigToCache(url, config);
+      Logger.info("☁️ 已加载远程 AI 配置");
+      return config;
+    } catch (error: any) {
+      Logger.warn(`☁️ 远程配置加载失败: ${error.message}，尝试使用本地缓存`);
+      const cached = this.loadConfigFromCache(url);
+      if (cached) {
+        Logger.info("🔄 已使用本地缓存配置作为回退方案");
+      }
+      return cached;
+    }
+  }
+
+  /** 保存远程配置到缓存 */
+  private saveConfigToCache(url: string, config: Record<string, any>): void {
+    try {
+      const cachedConfig: CachedConfig = {
+        config,
+        timestamp: Date.now(),
+        version: "1.0.0",
+        url,
+      };
+      this.writeJsonFile(this.getCachePath(), cachedConfig);
+    } catch (error: any) {
+      Logger.warn(`⚠️ 保存配置缓存失败: ${error.message}`);
+    }
+  }
+
+  /** 从缓存读取远程配置 */
+  private loadConfigFromCache(url: string): Record<string, any> | null {
+    const cachedConfig = this.readJsonFile(this.getCachePath()) as
+      | CachedConfig
+      | null;
+    if (!cachedConfig || cachedConfig.url !== url) {
+      return null;
+    }
+    if (Date.now() - cachedConfig.timestamp > CACHE_MAX_AGE) {
+      Logger.warn("⏰ 缓存配置已过期");
+      return null;
+    }
+    // 清理旧版本缓存中以明文保存的共享密钥
+    if (SECRET_KEYS.some((key) => getByPath(cachedConfig.config, key) !== undefined)) {
+      cachedConfig.config = this.stripSecrets(cachedConfig.config);
+      this.writeJsonFile(this.getCachePath(), cachedConfig);
+    }
+    return cachedConfig.config;
+  }
+
+  /** 移除配置中的密钥字段 */
+  private stripSecrets(config: Record<string, any>): Record<string, any> {
+    const result = JSON.parse(JSON.stringify(config));
+    for (const key of SECRET_KEYS) {
+      if (unsetByPath(result, key)) {
+        Logger.warn(`已忽略配置中的 ${key}，请使用 git-pro auth login 保存密钥`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 移除不受信任来源中的 TRUSTED_ONLY_KEYS；trust 本身无论是否受信任都会移除
+   */
+  private stripUntrusted(
+    config: Record<string, any>,
+    source: { label: string; trusted: boolean; hint: string }
+  ): Record<string, any> {
+    const result = JSON.parse(JSON.stringify(config));
+    if (unsetByPath(result, "trust")) {
+      Logger.warn(`已忽略${source.label} 中的 trust，信任列表只能在用户级配置中设置`);
+    }
+    if (source.trusted) return result;
+    for (const key of TRUSTED_ONLY_KEYS) {
+      if (unsetByPath(result, key)) {
+        Logger.warn(`已忽略${source.label} 中的 ${key}，${source.hint}`);
+      }
+    }
+    return result;
+  }
+
+  /** 解析 URL 的主机（含端口），无效时返回 null */
+  private getHost(url: string): string | null {
+    try {
+      return new URL(url).host;
+    } catch {
+      return null;
+    }
+  }
+
+  /** 读取 JSON 文件，文件不存在时返回 null */
+  private readJsonFile(filePath: string): Record<string, any> | null {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    try {
+      const content = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      return isPlainObject(content) ? content : null;
+    } catch (error: any) {
+      Logger.warn(`⚠️ 读取配置文件 ${filePath} 失败: ${error.message}`);
+      return null;
+    }
+  }
+
+  /** 写入 JSON 文件，目录不存在时自动创建 */
+  private writeJsonFile(filePath: string, content: Record<string, any>): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(content, null, 2) + "\n");
+  }
+
+  /** 解析命令行传入的值：支持数字、布尔值与 JSON，其余按字符串处理 */
+  private parseValue(raw: string): any {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  }
+}
+
+export const settingsService = SettingsService.getInstance();
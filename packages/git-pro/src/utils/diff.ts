@@ -0,0 +1,154 @@
+import path from "path";
+
+/** diff 中的一个片段（以 @@ 开头） */
+export interface DiffHunk {
+  /** 片段头，如 @@ -1,3 +1,4 @@ */
+  header: string;
+  /** 片段完整文本（包含片段头） */
+  text: string;
+  additions: number;
+  deletions: number;
+}
+
+/** 默认折叠为一行统计的生成文件与锁文件 */
+export const DEFAULT_COLLAPSE_PATTERNS = [
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "composer.lock",
+  "Cargo.lock",
+  "Gemfile.lock",
+  "poetry.lock",
+  "go.sum",
+  "dist/",
+  "build/",
+  "*.min.js",
+  "*.min.css",
+  "*.map",
+  "*.snap",
+];
+
+/** 源码文件扩展名，排序时优先 */
+const SOURCE_EXTENSIONS = [
+  ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".vue", ".svelte",
+  ".py", ".go", ".rs", ".java", ".kt", ".swift", ".c", ".cc", ".cpp", ".h",
+  ".cs", ".php", ".rb", ".scss", ".less", ".css", ".html",
+];
+
+/** 新增定义类代码的特征，排序时加分 */
+const DEFINITION_PATTERN =
+  /^[+-]\s*(export\s+|public\s+|private\s+|protected\s+|async\s+)*(function|class|interface|type|enum|const|def|func|fn|struct)\b/m;
+
+/**
+ * 估算文本的 token 数
+ * 非 ASCII 字符（如中文）按 1 个 token 计，其余按 4 个字符 1 个 token 计
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+/**
+ * 将 glob 转换为正则
+ * 支持 **、*、?；以 / 结尾表示目录；不含 / 的模式匹配任意层级的文件名
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim();
+  const isDir = pattern.endsWith("/");
+  if (isDir) pattern = pattern.slice(0, -1);
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\//, "");
+
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // **/ 匹配零个或多个目录
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const prefix = anchored ? "^" : "(?:^|/)";
+  const suffix = isDir ? "/" : "(?:/|$)";
+  return new RegExp(prefix + source + suffix);
+}
+
+/** 文件路径是否匹配任一 glob */
+export function matchesAny(filePath: string, globs: string[]): boolean {
+  const normalized = filePath.replace(/\\/g, "/");
+  return globs.some((glob) => globToRegExp(glob).test(normalized));
+}
+
+/**
+ * 将单个文件的 diff 拆分为片段，丢弃 diff --git / index / --- / +++ 等文件头
+ */
+export function parseHunks(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of diff.replace(/\n$/, "").split("\n")) {
+    if (line.startsWith("@@")) {
+      current = { header: line, text: line, additions: 0, deletions: 0 };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    current.text += "\n" + line;
+    if (line.startsWith("+")) current.additions++;
+    else if (line.startsWith("-")) current.deletions++;
+  }
+
+  return hunks;
+}
+
+/**
+ * 计算片段重要度，分数越高越优先放入提示词
+ */
+export function scoreHunk(
+  hunk: DiffHunk,
+  filePath: string,
+  status: string
+): number {
+  const ext = path.extname(filePath).toLowerCase();
+  let score = 0;
+
+  if (SOURCE_EXTENSIONS.includes(ext)) score += 3;
+  if (/(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\./.test(filePath)) score -= 1;
+  if (ext === ".md" || ext === ".txt") score -= 1;
+  if (status === "new file") score += 1;
+  if (status === "deleted") score -= 2;
+
+  // 改动行数越多越重要，但增长逐渐放缓
+  score += Math.log2(1 + hunk.additions + hunk.deletions);
+
+  if (DEFINITION_PATTERN.test(hunk.text)) score += 2;
+
+  // 只有空白变化的片段几乎没有信息量
+  const changed = hunk.text
+    .split("\n")
+    .filter((line) => /^[+-]/.test(line))
+    .map((line) => line.slice(1).trim());
+  if (changed.every((line) => line.length === 0)) score -= 5;
+
+  return score;
+}
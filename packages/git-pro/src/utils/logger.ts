@@ -1,26 +1,76 @@
 import chalk from "chalk";
 
+/** 常见密钥格式，即使未注册也会被脱敏 */
+const SECRET_PATTERNS: RegExp[] = [
+  /\bsk-[A-Za-z0-9_-]{8,}/g,
+  /(Bearer\s+)[A-Za-z0-9._~+/=-]{8,}/gi,
+  /("?(?:x-)?api[-_]?key"?\s*[:=]\s*"?)[^"\s,}]{8,}/gi,
+];
+
 /** 日志工具类 */
 export class Logger {
+  /** 需要脱敏的密钥 */
+  private static secrets = new Set<string>();
+
+  /** 静默模式下只输出错误，保证标准输出可被程序解析（如 --json） */
+  private static quiet = false;
+
+  /** 开启或关闭静默模式 */
+  static setQuiet(quiet: boolean): void {
+    Logger.quiet = quiet;
+  }
+
+  /** 注册需要从日志中脱敏的密钥 */
+  static registerSecret(secret: string): void {
+    if (secret && secret.length >= 4) {
+      Logger.secrets.add(secret);
+    }
+  }
+
+  /** 移除日志与错误信息中的密钥 */
+  static redact(message: string): string {
+    let result = message;
+    for (const secret of Logger.secrets) {
+      result = result.split(secret).join("****");
+    }
+    for (const pattern of SECRET_PATTERNS) {
+      result = result.replace(pattern, (match, prefix) =>
+        typeof prefix === "string" ? `${prefix}****` : "****"
+      );
+    }
+    return result;
+  }
+
   /** 成功日志输出 */
   static success(message: string): void {
-    console.log(chalk.green(`🟢 ${chalk.bgGreen.white(" 成功 ")} ${message}`));
+    if (Logger.quiet) return;
+    console.log(
+      chalk.green(`🟢 ${chalk.bgGreen.white(" 成功 ")} ${Logger.redact(message)}`)
+    );
   }
 
   /** 错误日志输出 */
   static error(message: string): void {
-    console.error(chalk.red(`❌ ${chalk.bgRed.white(" 错误 ")} ${message}`));
+    console.error(
+      chalk.red(`❌ ${chalk.bgRed.white(" 错误 ")} ${Logger.redact(message)}`)
+    );
   }
 
   /** 警告日志输出 */
   static warn(message: string): void {
+    if (Logger.quiet) return;
     console.warn(
-      chalk.yellow(`⚠️ ${chalk.bgYellow.black(" 警告 ")} ${message}`)
+      chalk.yellow(
+        `⚠️ ${chalk.bgYellow.black(" 警告 ")} ${Logger.redact(message)}`
+      )
     );
   }
 
   /** 信息日志输出 */
   static info(message: string): void {
-    console.info(chalk.blue(`🔊 ${chalk.bgBlue.white(" 信息 ")} ${message}`));
+    if (Logger.quiet) return;
+    console.info(
+      chalk.blue(`🔊 ${chalk.bgBlue.white(" 信息 ")} ${Logger.redact(message)}`)
+    );
   }
 }
@@ -0,0 +1,83 @@
+/** 是否为普通对象（数组不算） */
+export function isPlainObject(value: any): value is Record<string, any> {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value)
+  );
+}
+
+/**
+ * 深度合并对象，后者覆盖前者；数组整体替换，不做合并
+ */
+export function deepMerge<T extends Record<string, any>>(
+  target: T,
+  ...sources: Array<Record<string, any> | undefined>
+): T {
+  const result: Record<string, any> = { ...target };
+  for (const source of sources) {
+    if (!source) continue;
+    for (const [key, value] of Object.entries(source)) {
+      if (value === undefined) continue;
+      result[key] =
+        isPlainObject(value) && isPlainObject(result[key])
+          ? deepMerge(result[key], value)
+          : value;
+    }
+  }
+  return result as T;
+}
+
+/** 按点分路径读取值，如 getByPath(obj, "api.baseUrl") */
+export function getByPath(obj: Record<string, any>, key: string): any {
+  return key
+    .split(".")
+    .reduce<any>((cur, part) => (isPlainObject(cur) ? cur[part] : undefined), obj);
+}
+
+/** 按点分路径写入值，中间层不存在时自动创建 */
+export function setByPath(
+  obj: Record<string, any>,
+  key: string,
+  value: any
+): void {
+  const parts = key.split(".");
+  let cur = obj;
+  for (const part of parts.slice(0, -1)) {
+    if (!isPlainObject(cur[part])) {
+      cur[part] = {};
+    }
+    cur = cur[part];
+  }
+  cur[parts[parts.length - 1]] = value;
+}
+
+/** 按点分路径删除值，返回是否删除成功 */
+export function unsetByPath(obj: Record<string, any>, key: string): boolean {
+  const parts = key.split(".");
+  const parent = getByPath(obj, parts.slice(0, -1).join("."));
+  const target = parts.length === 1 ? obj : parent;
+  const last = parts[parts.length - 1];
+  if (!isPlainObject(target) || !(last in target)) {
+    return false;
+  }
+  delete target[last];
+  return true;
+}
+
+/** 将嵌套对象展开为点分路径的扁平映射 */
+export function flatten(
+  obj: Record<string, any>,
+  prefix: string = ""
+): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      Object.assign(result, flatten(value, path));
+    } else {
+      result[path] = value;
+    }
+  }
+  return result;
+}